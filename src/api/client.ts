@@ -1,33 +1,67 @@
 import { GraphQLClient, gql } from "graphql-request";
+import * as crypto from "crypto";
 import { Logger } from "../utils/logger";
+import { PrivacyFilter } from "../utils/privacy";
 import {
   ActivityLog,
   GitCommit,
   FileActivitySummary,
   DailyActivitySummary,
+  FocusSession,
 } from "../storage/database";
+import { localDate } from "../utils/format";
+import { DEFAULT_ENDPOINT } from "./profiles";
+import { SyncError } from "./errors";
+
+const REQUEST_TIMEOUT = 30_000; // 30 seconds
+// Payloads above this size are split before sending
+const MAX_PAYLOAD_BYTES = 256 * 1024;
 
 export class ApiClient {
   private client: GraphQLClient;
   private logger = Logger.getInstance();
-  // TODO: Make this configurable
-  private endpoint = "https://miss-minutes.mukulrai.me/api/graphql";
+  private privacy = PrivacyFilter.getInstance();
+  private endpoint: string;
+  private token: string | undefined;
 
-  constructor(token?: string) {
-    this.client = new GraphQLClient(this.endpoint, {
-      headers: token ? { authorization: `Bearer ${token}` } : {},
-    });
+  constructor(endpoint: string = DEFAULT_ENDPOINT, token?: string) {
+    this.endpoint = endpoint;
+    this.token = token;
+    this.client = this.createClient();
   }
 
   public updateToken(token: string) {
-    this.client = new GraphQLClient(this.endpoint, {
-      headers: { authorization: `Bearer ${token}` },
+    this.token = token;
+    this.client = this.createClient();
+  }
+
+  /**
+   * Point the client at another server (e.g. after a profile switch)
+   */
+  public configure(endpoint: string, token?: string) {
+    this.endpoint = endpoint;
+    this.token = token;
+    this.client = this.createClient();
+    this.logger.info(`API client targeting ${endpoint}`);
+  }
+
+  public getEndpoint(): string {
+    return this.endpoint;
+  }
+
+  public hasToken(): boolean {
+    return !!this.token;
+  }
+
+  private createClient(): GraphQLClient {
+    return new GraphQLClient(this.endpoint, {
+      headers: this.token ? { authorization: `Bearer ${this.token}` } : {},
     });
   }
 
-  public async syncActivities(logs: ActivityLog[]): Promise<boolean> {
+  public async syncActivities(logs: ActivityLog[]): Promise<void> {
     if (logs.length === 0) {
-      return true;
+      return;
     }
 
     const mutation = gql`
@@ -50,21 +84,20 @@ export class ApiClient {
     }));
 
     try {
-      await this.client.request(mutation, { input });
+      await this.send(mutation, input);
       this.logger.info(
         `Synced ${input[0].commitHash}||${input[0].filePath}||${input[0].projectPath} `
       );
       this.logger.info(`Synced ${logs.length} activities to ${this.endpoint}`);
-      return true;
     } catch (error) {
       this.logger.error("Failed to sync activities", error as Error);
-      return false;
+      throw error;
     }
   }
 
-  public async syncCommits(commits: GitCommit[]): Promise<boolean> {
+  public async syncCommits(commits: GitCommit[]): Promise<void> {
     if (commits.length === 0) {
-      return true;
+      return;
     }
 
     const mutation = gql`
@@ -77,28 +110,27 @@ export class ApiClient {
     `;
 
     const input = commits.map((commit) => ({
-      projectPath: commit.projectPath,
+      projectPath: this.privacy.projectForSync(commit.projectPath),
       commitHash: commit.commitHash,
-      message: commit.message,
+      message: this.privacy.labelForSync(commit.message),
       author: commit.author,
       authorEmail: commit.authorEmail,
       timestamp: commit.timestamp,
       filesChanged: commit.filesChanged,
       linesAdded: commit.linesAdded,
       linesDeleted: commit.linesDeleted,
-      branch: commit.branch,
+      branch: this.privacy.labelForSync(commit.branch),
     }));
 
     try {
-      await this.client.request(mutation, { input });
+      await this.send(mutation, input);
       this.logger.info(
         `Synced ${input[0].author}||${input[0].commitHash}||${input[0].projectPath}  `
       );
       this.logger.info(`Synced ${commits.length} commits to ${this.endpoint}`);
-      return true;
     } catch (error) {
       this.logger.error("Failed to sync commits", error as Error);
-      return false;
+      throw error;
     }
   }
 
@@ -107,10 +139,11 @@ export class ApiClient {
    * This is the new preferred method instead of syncing individual activities
    */
   public async syncFileActivities(
-    summaries: FileActivitySummary[]
-  ): Promise<boolean> {
+    summaries: FileActivitySummary[],
+    idempotencyKey?: string
+  ): Promise<void> {
     if (summaries.length === 0) {
-      return true;
+      return;
     }
 
     const mutation = gql`
@@ -122,31 +155,33 @@ export class ApiClient {
       }
     `;
 
+    // Paths, branch and ticket are obfuscated according to the user's privacy settings
     const input = summaries.map((summary) => ({
-      projectPath: summary.projectPath,
+      projectPath: this.privacy.projectForSync(summary.projectPath),
       commitHash: summary.commitHash,
-      branch: summary.branch,
-      filePath: summary.filePath,
+      branch: this.privacy.labelForSync(summary.branch),
+      filePath: this.privacy.fileForSync(summary.filePath),
       language: summary.language,
       totalDuration: summary.totalDuration,
       activityCount: summary.activityCount,
       firstActivityAt: summary.firstActivityAt,
       lastActivityAt: summary.lastActivityAt,
       editor: summary.editor,
+      categoryBreakdown: JSON.stringify(summary.categoryBreakdown),
+      ticketKey: this.privacy.labelForSync(summary.ticketKey),
     }));
 
     try {
-      await this.client.request(mutation, { input });
+      await this.send(mutation, input, idempotencyKey);
       this.logger.info(
         `Synced file activity: ${input[0].commitHash}||${input[0].branch}||${input[0].filePath}`
       );
       this.logger.info(
         `Synced ${summaries.length} file activity summaries to ${this.endpoint}`
       );
-      return true;
     } catch (error) {
       this.logger.error("Failed to sync file activities", error as Error);
-      return false;
+      throw error;
     }
   }
 
@@ -155,9 +190,9 @@ export class ApiClient {
    */
   public async syncDailyStats(
     dailyStats: DailyActivitySummary[]
-  ): Promise<boolean> {
+  ): Promise<void> {
     if (dailyStats.length === 0) {
-      return true;
+      return;
     }
 
     const mutation = gql`
@@ -171,20 +206,98 @@ export class ApiClient {
 
     const input = dailyStats.map((stat) => ({
       date: stat.date,
-      projectPath: stat.projectPath,
+      projectPath: this.privacy.projectForSync(stat.projectPath),
       totalDuration: stat.totalDuration,
       languageBreakdown: JSON.stringify(stat.languageBreakdown),
+      categoryBreakdown: JSON.stringify(stat.categoryBreakdown),
       filesEdited: stat.filesEdited.length,
       commitCount: stat.commitCount,
     }));
 
     try {
-      await this.client.request(mutation, { input });
+      await this.send(mutation, input);
       this.logger.info(`Synced ${dailyStats.length} daily stats summaries`);
-      return true;
     } catch (error) {
       this.logger.error("Failed to sync daily stats", error as Error);
-      return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Sync completed focus sessions, dated by the local day they started on
+   */
+  public async syncFocusSessions(sessions: FocusSession[]): Promise<void> {
+    if (sessions.length === 0) {
+      return;
+    }
+
+    const mutation = gql`
+      mutation SyncFocusSessions($input: [FocusSessionInput!]!) {
+        syncFocusSessions(input: $input) {
+          success
+          message
+        }
+      }
+    `;
+
+    const input = sessions.map((session) => ({
+      date: localDate(session.startedAt),
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      duration: session.duration,
+    }));
+
+    try {
+      await this.send(mutation, input);
+    } catch (error) {
+      this.logger.error("Failed to sync focus sessions", error as Error);
+      throw error;
     }
   }
+
+  /**
+   * Send a batch mutation with an Idempotency-Key header so the server can
+   * ignore retries of a batch it already applied. Without an explicit key the
+   * key is derived from the payload, so an unchanged retry reuses it.
+   * Batches that are (or are reported as) too large are split in half,
+   * each half getting a key derived from its parent's.
+   * Throws a SyncError on failure.
+   */
+  private async send(
+    document: string,
+    input: unknown[],
+    idempotencyKey?: string
+  ): Promise<void> {
+    const key =
+      idempotencyKey ??
+      crypto.createHash("sha256").update(JSON.stringify(input)).digest("hex");
+
+    const tooLarge =
+      input.length > 1 &&
+      Buffer.byteLength(JSON.stringify(input)) > MAX_PAYLOAD_BYTES;
+
+    if (!tooLarge) {
+      try {
+        await this.client.request({
+          document,
+          variables: { input },
+          requestHeaders: { "Idempotency-Key": key },
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+        });
+        return;
+      } catch (error) {
+        const syncError = SyncError.from(error);
+        if (syncError.kind !== "payloadTooLarge" || input.length <= 1) {
+          throw syncError;
+        }
+      }
+    }
+
+    const middle = Math.ceil(input.length / 2);
+    this.logger.warn(
+      `Payload of ${input.length} items too large, splitting into two batches`
+    );
+    await this.send(document, input.slice(0, middle), `${key}.0`);
+    await this.send(document, input.slice(middle), `${key}.1`);
+  }
 }
@@ -0,0 +1,56 @@
+import { ClientError } from "graphql-request";
+
+// auth: token missing or rejected, retrying won't help until it is replaced
+// payloadTooLarge: the server refused the request size, send smaller batches
+// network: server unreachable or request timed out
+// server: the server answered with another error
+export type SyncErrorKind = "auth" | "payloadTooLarge" | "network" | "server";
+
+export class SyncError extends Error {
+  constructor(
+    public readonly kind: SyncErrorKind,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "SyncError";
+  }
+
+  /**
+   * Classify anything thrown by GraphQLClient.request
+   */
+  public static from(error: unknown): SyncError {
+    if (error instanceof SyncError) {
+      return error;
+    }
+
+    if (error instanceof ClientError) {
+      const status = error.response.status;
+      const codes = (error.response.errors || []).map(
+        (e: any) => e?.extensions?.code
+      );
+
+      if (
+        status === 401 ||
+        status === 403 ||
+        codes.includes("UNAUTHENTICATED")
+      ) {
+        return new SyncError("auth", "API token was rejected", status);
+      }
+      if (status === 413) {
+        return new SyncError("payloadTooLarge", "Payload too large", status);
+      }
+      return new SyncError(
+        "server",
+        `Server responded with ${status}: ${error.message}`,
+        status
+      );
+    }
+
+    // fetch failures, DNS errors, aborted (timed out) requests
+    return new SyncError(
+      "network",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import * as vscode from "vscode";
+
+export const DEFAULT_ENDPOINT = "https://miss-minutes.mukulrai.me/api/graphql";
+export const DEFAULT_PROFILE = "default";
+
+// Legacy secret key, still used for the default profile so existing tokens keep working
+const LEGACY_TOKEN_KEY = "miss_minutes_api_token";
+
+export interface ServerProfile {
+  name: string;
+  endpoint: string;
+}
+
+/**
+ * Resolves named sync server profiles from settings and keeps one API token
+ * per profile in the extension's secret storage.
+ */
+export class ProfileManager {
+  constructor(private context: vscode.ExtensionContext) {}
+
+  public getProfiles(): ServerProfile[] {
+    const config = vscode.workspace.getConfiguration("miss-minutes");
+    const defaultProfile: ServerProfile = {
+      name: DEFAULT_PROFILE,
+      endpoint: config.get<string>("apiEndpoint") || DEFAULT_ENDPOINT,
+    };
+
+    const configured = config.get<ServerProfile[]>("profiles") || [];
+    const profiles = configured.filter(
+      (p) => p && p.name && p.endpoint && p.name !== DEFAULT_PROFILE
+    );
+
+    return [defaultProfile, ...profiles];
+  }
+
+  public getActiveProfile(): ServerProfile {
+    const active = vscode.workspace
+      .getConfiguration("miss-minutes")
+      .get<string>("activeProfile");
+    const profiles = this.getProfiles();
+    return profiles.find((p) => p.name === active) || profiles[0];
+  }
+
+  public async setActiveProfile(name: string): Promise<void> {
+    await vscode.workspace
+      .getConfiguration("miss-minutes")
+      .update("activeProfile", name, vscode.ConfigurationTarget.Global);
+  }
+
+  public async addProfile(profile: ServerProfile): Promise<void> {
+    const config = vscode.workspace.getConfiguration("miss-minutes");
+    const configured = (config.get<ServerProfile[]>("profiles") || []).filter(
+      (p) => p.name !== profile.name
+    );
+    await config.update(
+      "profiles",
+      [...configured, profile],
+      vscode.ConfigurationTarget.Global
+    );
+  }
+
+  public getToken(profile: ServerProfile): Thenable<string | undefined> {
+    return this.context.secrets.get(this.tokenKey(profile));
+  }
+
+  public storeToken(profile: ServerProfile, token: string): Thenable<void> {
+    return this.context.secrets.store(this.tokenKey(profile), token);
+  }
+
+  private tokenKey(profile: ServerProfile): string {
+    return profile.name === DEFAULT_PROFILE
+      ? LEGACY_TOKEN_KEY
+      : `${LEGACY_TOKEN_KEY}:${profile.name}`;
+  }
+}
@@ -4,18 +4,59 @@ import { Database } from "./storage/database";
 import { StatusBarManager } from "./sync/statusBarManger";
 import { Tracker } from "./sync/tracker";
 import { ApiClient } from "./api/client";
+import { ProfileManager, ServerProfile } from "./api/profiles";
 import { GitTracker } from "./utils/gitTracker";
+import { PauseManager } from "./sync/pauseManager";
+import { GoalManager } from "./sync/goalManager";
+import { FocusManager } from "./sync/focusManager";
+import { SyncLock } from "./sync/syncLock";
+import { DataExporter } from "./storage/exporter";
+import { DataImporter } from "./storage/importer";
+import { ManualEntries } from "./storage/manualEntries";
+import { DashboardPanel } from "./views/dashboardPanel";
+import { TicketMatcher } from "./utils/tickets";
+import { CommitTrailer } from "./utils/commitTrailer";
+import { CommitNotes } from "./utils/commitNotes";
+import { formatDuration } from "./utils/format";
 
 let db: Database;
 let tracker: Tracker;
 let statusBarManager: StatusBarManager;
 let apiClient: ApiClient;
 let gitTracker: GitTracker;
+let profileManager: ProfileManager;
+let pauseManager: PauseManager;
+let commitNotes: CommitNotes;
+
+/**
+ * Rebuild the API client for the active profile and let the tracker
+ * sync against it immediately, without reloading the window.
+ */
+async function applyActiveProfile() {
+  if (!apiClient) return;
+
+  const profile = profileManager.getActiveProfile();
+  const token = await profileManager.getToken(profile);
+  apiClient.configure(profile.endpoint, token);
+
+  if (statusBarManager) {
+    if (token) {
+      statusBarManager.setSyncState("active");
+    } else {
+      statusBarManager.setSyncState("noToken");
+    }
+  }
+  if (tracker) {
+    tracker.restartSync();
+  }
+}
 
 export async function activate(context: vscode.ExtensionContext) {
   const logger = Logger.getInstance();
   logger.info("Miss-Minutes extension is activating...");
 
+  profileManager = new ProfileManager(context);
+
   try {
     // Register commands first before any async operations
     // Auth Command
@@ -30,31 +71,235 @@ export async function activate(context: vscode.ExtensionContext) {
         });
 
         if (token) {
-          await context.secrets.store("miss_minutes_api_token", token);
+          const profile = profileManager.getActiveProfile();
+          await profileManager.storeToken(profile, token);
           if (apiClient) {
             apiClient.updateToken(token);
           }
           vscode.window.showInformationMessage(
-            "Miss-Minutes: API Token saved successfully!"
+            `Miss-Minutes: API Token saved for profile "${profile.name}"!`
           );
-          logger.info("API Token saved");
+          logger.info(`API Token saved for profile ${profile.name}`);
           if (statusBarManager) {
-            statusBarManager.updateStatus("Miss-Minutes: Active");
+            statusBarManager.setSyncState("active");
+          }
+          if (tracker) {
+            tracker.restartSync();
           }
         }
       }
     );
     context.subscriptions.push(setApiKeyCommand);
 
-    // Hello World Command
-    const helloWorldCommand = vscode.commands.registerCommand(
-      "miss-minutes.helloWorld",
+    // Switch Profile Command
+    const switchProfileCommand = vscode.commands.registerCommand(
+      "miss-minutes.switchProfile",
+      async () => {
+        const active = profileManager.getActiveProfile();
+        const newProfileLabel = "$(add) New Profile...";
+        const items: vscode.QuickPickItem[] = [
+          ...profileManager.getProfiles().map((p) => ({
+            label: p.name,
+            description: p.endpoint,
+            detail: p.name === active.name ? "Active" : undefined,
+          })),
+          { label: newProfileLabel },
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, {
+          placeHolder: "Select the Miss-Minutes server profile to sync with",
+        });
+        if (!picked) return;
+
+        let profile: ServerProfile | undefined;
+        if (picked.label === newProfileLabel) {
+          profile = await promptNewProfile();
+          if (!profile) return;
+          await profileManager.addProfile(profile);
+        } else {
+          profile = profileManager
+            .getProfiles()
+            .find((p) => p.name === picked.label);
+          if (!profile) return;
+        }
+
+        await profileManager.setActiveProfile(profile.name);
+        if (!(await profileManager.getToken(profile))) {
+          await vscode.commands.executeCommand("miss-minutes.setApiKey");
+        }
+        await applyActiveProfile();
+
+        vscode.window.showInformationMessage(
+          `Miss-Minutes: Now syncing with profile "${profile.name}"`
+        );
+        logger.info(
+          `Switched to profile ${profile.name} (${profile.endpoint})`
+        );
+      }
+    );
+    context.subscriptions.push(switchProfileCommand);
+
+    // Endpoint or profile edited directly in settings
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration("miss-minutes.apiEndpoint") ||
+          e.affectsConfiguration("miss-minutes.profiles") ||
+          e.affectsConfiguration("miss-minutes.activeProfile")
+        ) {
+          applyActiveProfile();
+        }
+      })
+    );
+
+    // Dashboard Command
+    const openDashboardCommand = vscode.commands.registerCommand(
+      "miss-minutes.openDashboard",
       () => {
-        vscode.window.showInformationMessage("Hello World from Miss-Minutes!");
-        logger.info("Hello World command executed");
+        if (!db) {
+          vscode.window.showWarningMessage(
+            "Miss-Minutes: Still initializing, please try again in a moment."
+          );
+          return;
+        }
+        DashboardPanel.createOrShow(db, tracker);
+        logger.info("Dashboard opened");
+      }
+    );
+    context.subscriptions.push(openDashboardCommand);
+
+    // Export Command
+    const exportDataCommand = vscode.commands.registerCommand(
+      "miss-minutes.exportData",
+      async () => {
+        if (!db) return;
+        await tracker?.flushQueue();
+        await new DataExporter(db).promptAndExport();
+      }
+    );
+    context.subscriptions.push(exportDataCommand);
+
+    // Ticket Command
+    const ticketTimeCommand = vscode.commands.registerCommand(
+      "miss-minutes.timeOnCurrentTicket",
+      async () => {
+        if (!db || !gitTracker) return;
+
+        const fsPath =
+          vscode.window.activeTextEditor?.document.uri.fsPath ??
+          vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const branch = fsPath
+          ? gitTracker.getActiveBranchForPath(fsPath)
+          : undefined;
+        const ticketKey = TicketMatcher.getInstance().extract(branch);
+        if (!ticketKey) {
+          vscode.window.showWarningMessage(
+            branch
+              ? `Miss-Minutes: No ticket key found in branch ${branch}. Adjust miss-minutes.ticketPatterns to match it.`
+              : "Miss-Minutes: No git branch found for the current file."
+          );
+          return;
+        }
+
+        await tracker?.flushQueue();
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const totals = await db.getTicketTotals(ticketKey, today.getTime());
+        vscode.window.showInformationMessage(
+          `Miss-Minutes: ${ticketKey}: ${formatDuration(
+            totals.totalDuration
+          )} in total, ${formatDuration(totals.recentDuration)} today, across ${
+            totals.branchCount
+          } branch(es) and ${totals.commitCount} commit(s)`
+        );
       }
     );
-    context.subscriptions.push(helloWorldCommand);
+    context.subscriptions.push(ticketTimeCommand);
+
+    // Git Notes Command
+    const backfillNotesCommand = vscode.commands.registerCommand(
+      "miss-minutes.backfillGitNotes",
+      async () => {
+        if (!commitNotes) return;
+        await commitNotes.promptAndBackfill();
+      }
+    );
+    context.subscriptions.push(backfillNotesCommand);
+
+    // Manual Entry Commands
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "miss-minutes.addManualEntry",
+        async () => {
+          if (!db || !tracker) return;
+          await new ManualEntries(db, tracker).promptAndAdd();
+        }
+      ),
+      vscode.commands.registerCommand("miss-minutes.editToday", async () => {
+        if (!db || !tracker) return;
+        await new ManualEntries(db, tracker).promptAndEdit();
+      })
+    );
+
+    // Import Command
+    const importDataCommand = vscode.commands.registerCommand(
+      "miss-minutes.importData",
+      async () => {
+        if (!db) return;
+        const result = await new DataImporter(db).promptAndImport();
+        if (result && result.imported > 0) {
+          // Upload the imported history right away
+          tracker?.restartSync();
+        }
+      }
+    );
+    context.subscriptions.push(importDataCommand);
+
+    // Pause / Resume Commands
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "miss-minutes.pauseTracking",
+        async () => {
+          if (!pauseManager) return;
+          await pauseManager.pause();
+          vscode.window.showInformationMessage("Miss-Minutes: Tracking paused");
+        }
+      ),
+      vscode.commands.registerCommand(
+        "miss-minutes.resumeTracking",
+        async () => {
+          if (!pauseManager) return;
+          await pauseManager.resume();
+          vscode.window.showInformationMessage(
+            "Miss-Minutes: Tracking resumed"
+          );
+        }
+      ),
+      vscode.commands.registerCommand("miss-minutes.pauseFor", async () => {
+        if (!pauseManager) return;
+
+        const tomorrow = new Date();
+        tomorrow.setHours(24, 0, 0, 0);
+        const options = [
+          { label: "15 minutes", until: () => Date.now() + 15 * 60 * 1000 },
+          { label: "1 hour", until: () => Date.now() + 60 * 60 * 1000 },
+          { label: "Until tomorrow", until: () => tomorrow.getTime() },
+        ];
+
+        const picked = await vscode.window.showQuickPick(options, {
+          placeHolder: "Pause tracking for...",
+        });
+        if (!picked) return;
+
+        const until = picked.until();
+        await pauseManager.pause(until);
+        vscode.window.showInformationMessage(
+          `Miss-Minutes: Tracking paused until ${new Date(
+            until
+          ).toLocaleTimeString()}`
+        );
+      })
+    );
 
     logger.info("Commands registered successfully");
 
@@ -64,8 +309,10 @@ export async function activate(context: vscode.ExtensionContext) {
     db = new Database(storagePath);
     await db.init();
 
-    // Initialize API Client
-    apiClient = new ApiClient();
+    // Initialize API Client for the active server profile
+    const profile = profileManager.getActiveProfile();
+    apiClient = new ApiClient(profile.endpoint);
+    logger.info(`Using server profile ${profile.name} (${profile.endpoint})`);
 
     // Initialize Status Bar
     statusBarManager = new StatusBarManager();
@@ -79,17 +326,45 @@ export async function activate(context: vscode.ExtensionContext) {
     gitTracker = new GitTracker(db);
     gitTracker.watchGitChanges(context);
 
-    // Initialize Tracker
-    tracker = new Tracker(statusBarManager, db, apiClient, gitTracker);
+    // Initialize Tracker; windows share the database, one of them syncs it
+    tracker = new Tracker(
+      statusBarManager,
+      db,
+      apiClient,
+      gitTracker,
+      new SyncLock(storagePath)
+    );
     tracker.startTracking();
 
+    // Re-apply a pause from before the window reloaded
+    pauseManager = new PauseManager(context, tracker, statusBarManager);
+    context.subscriptions.push(pauseManager);
+    await pauseManager.restore();
+
+    // Coding goals and streaks, computed from the local database
+    const goalManager = new GoalManager(context, db, tracker, statusBarManager);
+    context.subscriptions.push(goalManager);
+    await goalManager.start();
+
+    // Optional Pomodoro mode on top of the tracker's activity
+    const focusManager = new FocusManager(db, tracker, statusBarManager);
+    context.subscriptions.push(focusManager);
+    focusManager.start();
+
+    // Time-Spent trailers for commit messages
+    const commitTrailer = new CommitTrailer(db, tracker, gitTracker);
+    context.subscriptions.push(commitTrailer);
+    commitTrailer.start();
+
+    // Per-commit time as git notes
+    commitNotes = new CommitNotes(db, tracker);
+    context.subscriptions.push(commitNotes);
+    commitNotes.start();
+
     // Check for existing token
-    const token = await context.secrets.get("miss_minutes_api_token");
+    const token = await profileManager.getToken(profile);
     if (!token) {
-      statusBarManager.updateStatus(
-        "Miss-Minutes: No Token",
-        "Click to set API Token"
-      );
+      statusBarManager.setSyncState("noToken");
       const selection = await vscode.window.showWarningMessage(
         "Miss-Minutes: API Token is missing. Please provide it to enable syncing.",
         "Enter API Token"
@@ -100,7 +375,7 @@ export async function activate(context: vscode.ExtensionContext) {
     } else {
       logger.info("API Token found.");
       apiClient.updateToken(token);
-      statusBarManager.updateStatus("Miss-Minutes: Active");
+      statusBarManager.setSyncState("active");
     }
 
     logger.info("Miss-Minutes initialized successfully");
@@ -112,14 +387,43 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 }
 
-export function deactivate() {
-  if (db) {
-    db.close();
-  }
+async function promptNewProfile(): Promise<ServerProfile | undefined> {
+  const name = await vscode.window.showInputBox({
+    prompt: "Profile name",
+    placeHolder: "e.g. work",
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      profileManager.getProfiles().some((p) => p.name === value.trim())
+        ? "A profile with this name already exists"
+        : undefined,
+  });
+  if (!name || !name.trim()) return undefined;
+
+  const endpoint = await vscode.window.showInputBox({
+    prompt: "GraphQL endpoint of the Miss-Minutes server",
+    placeHolder: "https://example.com/api/graphql",
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      /^https?:\/\//.test(value.trim())
+        ? undefined
+        : "Endpoint must start with http:// or https://",
+  });
+  if (!endpoint) return undefined;
+
+  return { name: name.trim(), endpoint: endpoint.trim() };
+}
+
+export async function deactivate() {
+  // Stop recording and write the open session and queued rows before the
+  // database goes away
   if (tracker) {
     tracker.stopTracking();
+    await tracker.flushQueue();
   }
   if (statusBarManager) {
     statusBarManager.dispose();
   }
+  if (db) {
+    db.close();
+  }
 }
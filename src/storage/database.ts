@@ -2,6 +2,10 @@ import * as sqlite3 from "sqlite3";
 import * as path from "path";
 import * as fs from "fs";
 import { Logger } from "../utils/logger";
+import { MIGRATIONS, MigrationContext } from "./migrations";
+
+// How long a write waits for another window's write to finish
+const BUSY_TIMEOUT = 5000;
 
 // Structure: "Store-and-Forward" Buffer with Deduplication
 // 1. Local DB stores individual activity logs with commit and branch info
@@ -11,6 +15,31 @@ import { Logger } from "../utils/logger";
 //    - Unique constraint: (projectId, commitId, branch, filePath)
 //    - If duplicate detected, adds duration to existing entry instead of creating new one
 // 5. This ensures efficient storage and prevents 100s+ of duplicate activity logs on server
+// 6. Synced rows are only marked (per stream: daily, file, commit), never deleted on upload.
+//    They are pruned once they are older than the local retention window.
+
+// Editor value of activities imported from WakaTime exports
+export const WAKATIME_IMPORT_EDITOR = "wakatime-import";
+// Editor value of time entered by hand
+export const MANUAL_EDITOR = "manual";
+
+// What kind of work an activity was
+export type ActivityCategory =
+  | "coding"
+  | "debugging"
+  | "terminal"
+  | "testing"
+  | "reviewing"
+  | "meeting";
+
+// Git operation in progress while an activity was recorded
+export type GitState =
+  | "detached"
+  | "rebasing"
+  | "merging"
+  | "cherry-picking"
+  | "reverting"
+  | "bisecting";
 
 export interface ActivityLog {
   id?: number; // Optional: Auto-generated by SQLite
@@ -19,9 +48,14 @@ export interface ActivityLog {
   language: string;
   timestamp: number;
   duration: number;
-  editor?: string;
+  editor?: string; // "vscode" for tracked time, otherwise the source it came from
   commitHash?: string; // Associated git commit
   branch?: string; // Git branch name
+  category?: ActivityCategory; // Defaults to "coding"
+  gitState?: GitState; // Unset when on a branch with nothing in progress
+  ticketKey?: string; // Issue key from the branch name or commit message
+  description?: string; // What a manual entry was for
+  editedAt?: number; // Set when a tracked span was corrected by hand
 }
 
 export interface GitCommit {
@@ -36,6 +70,29 @@ export interface GitCommit {
   linesAdded: number;
   linesDeleted: number;
   branch?: string;
+  files?: CommitFileStat[]; // Per-file stats, stored in commit_files
+}
+
+// Lines changed in one file by a commit
+export interface CommitFileStat {
+  filePath: string; // Absolute, like activity_logs.file_path
+  oldPath?: string; // Set when the file was renamed
+  linesAdded: number;
+  linesDeleted: number;
+  binary: boolean;
+}
+
+// A commit's file stats together with the time tracked on the file for it
+export interface CommitFileActivity extends CommitFileStat {
+  totalDuration: number;
+}
+
+// A completed block of continuous activity (Pomodoro)
+export interface FocusSession {
+  id?: number;
+  startedAt: number;
+  endedAt: number;
+  duration: number; // Milliseconds
 }
 
 // Aggregated activity data per file per commit
@@ -50,6 +107,8 @@ export interface FileActivitySummary {
   firstActivityAt: number; // Timestamp of first activity
   lastActivityAt: number; // Timestamp of last activity
   editor: string;
+  categoryBreakdown: Record<string, number>; // Duration per ActivityCategory
+  ticketKey?: string;
 }
 
 // Aggregated daily activity data
@@ -58,10 +117,162 @@ export interface DailyActivitySummary {
   projectPath: string;
   totalDuration: number;
   languageBreakdown: Record<string, number>;
+  categoryBreakdown: Record<string, number>;
   filesEdited: string[];
   commitCount: number;
 }
 
+// Dimensions the local dashboard can break tracked time down by
+export type ActivityDimension =
+  | "day"
+  | "project"
+  | "language"
+  | "branch"
+  | "commit"
+  | "category"
+  | "ticket";
+
+// Total tracked time for one value of an ActivityDimension
+export interface ActivityTotal {
+  key: string;
+  label: string;
+  totalDuration: number;
+  activityCount: number;
+}
+
+// Optional filters when reading raw history, e.g. for exports
+export interface ActivityFilter {
+  from?: number; // Inclusive epoch ms
+  to?: number; // Exclusive epoch ms
+  projectPath?: string;
+}
+
+// Tracked time per project and language, used for the live status bar counter
+export interface ActivityBreakdown {
+  projectPath: string;
+  language: string;
+  totalDuration: number;
+}
+
+// Rows each sync stream is responsible for. Tracked rows need a commit for
+// the daily stream; imported rows have none and are included anyway.
+const DAILY_SYNC_SCOPE =
+  "((commit_hash IS NOT NULL AND commit_hash != '') OR editor != 'vscode')";
+// Terminal and test runs without an open file have no file to report.
+const FILE_SYNC_SCOPE =
+  "(commit_hash IS NOT NULL AND branch IS NOT NULL AND file_path != '')";
+
+const DIMENSION_COLUMNS: Record<ActivityDimension, string> = {
+  day: "DATE(a.timestamp / 1000, 'unixepoch', 'localtime')",
+  project: "a.project_path",
+  language: "a.language",
+  branch: "a.branch",
+  commit: "a.commit_hash",
+  category: "COALESCE(a.category, 'coding')",
+  ticket: "a.ticket_key",
+};
+
+// WHERE clause for an ActivityFilter
+function activityFilterClause(filter: ActivityFilter): {
+  sql: string;
+  params: (string | number)[];
+} {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.from !== undefined) {
+    conditions.push("timestamp >= ?");
+    params.push(filter.from);
+  }
+  if (filter.to !== undefined) {
+    conditions.push("timestamp < ?");
+    params.push(filter.to);
+  }
+  if (filter.projectPath) {
+    conditions.push("project_path = ?");
+    params.push(filter.projectPath);
+  }
+  return {
+    sql: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+}
+
+// Extra WHERE condition leaving out recent rows still tagged with their
+// project's current HEAD: that work is not committed yet and gets
+// re-attributed to the commit it ends up in
+function excludeUncommittedClause(
+  heads: Map<string, string>,
+  since: number
+): { sql: string; params: (string | number)[] } {
+  if (heads.size === 0) {
+    return { sql: "", params: [] };
+  }
+  const pairs = Array.from(heads.keys())
+    .map(() => "(project_path = ? AND commit_hash = ?)")
+    .join(" OR ");
+  return {
+    sql: ` AND NOT (timestamp >= ? AND (${pairs}))`,
+    params: [since, ...Array.from(heads.entries()).flat()],
+  };
+}
+
+// SQL with its parameters
+interface Statement {
+  sql: string;
+  params: unknown[];
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => "?").join(",");
+}
+
+/**
+ * True when none of the rows is in a file batch, i.e. uploaded or being
+ * uploaded as file activity
+ */
+function notUploadedClause(ids: number[]): Statement {
+  return {
+    sql: `NOT EXISTS (SELECT 1 FROM activity_logs
+      WHERE id IN (${placeholders(ids)}) AND file_batch_id IS NOT NULL)`,
+    params: ids,
+  };
+}
+
+/**
+ * Queue the (date, project) daily stats groups of already synced rows to
+ * be sent again, under the rows' project or `projectPath` (where they are
+ * moved to). Does nothing when the rows cannot be changed.
+ */
+function resyncDailyStatement(ids: number[], projectPath?: string): Statement {
+  const unlocked = notUploadedClause(ids);
+  const moved = projectPath !== undefined;
+  return {
+    sql: `INSERT OR IGNORE INTO daily_resync (date, project_path)
+      SELECT DISTINCT DATE(timestamp / 1000, 'unixepoch'), ${
+        moved ? "?" : "project_path"
+      }
+      FROM activity_logs
+      WHERE id IN (${placeholders(ids)}) AND daily_synced_at IS NOT NULL
+        AND ${unlocked.sql}`,
+    params: [...(moved ? [projectPath] : []), ...ids, ...unlocked.params],
+  };
+}
+
+// Extra WHERE condition leaving out projects that must not be synced
+function excludeProjectsClause(projects: string[]): {
+  sql: string;
+  params: string[];
+} {
+  if (projects.length === 0) {
+    return { sql: "", params: [] };
+  }
+  const placeholders = projects.map(() => "?").join(",");
+  return {
+    sql: ` AND project_path NOT IN (${placeholders})`,
+    params: projects,
+  };
+}
+
 export class Database {
   private db: sqlite3.Database | null = null;
   private logger = Logger.getInstance();
@@ -77,6 +288,7 @@ export class Database {
       }
 
       const dbPath = path.join(this.storagePath, "miss-minutes.db");
+      const isNew = !fs.existsSync(dbPath);
       this.logger.info(`Initializing database at ${dbPath}`);
 
       this.db = new sqlite3.Database(dbPath, (err) => {
@@ -85,128 +297,142 @@ export class Database {
           reject(err);
         } else {
           this.logger.info("Connected to SQLite database");
-          this.createTables().then(resolve).catch(reject);
+          // Every open window shares this file: WAL lets readers and a
+          // writer work side by side, the busy timeout queues writers
+          this.db!.configure("busyTimeout", BUSY_TIMEOUT);
+          this.run("PRAGMA journal_mode = WAL")
+            .then(() => this.migrate(dbPath, isNew))
+            .then(resolve)
+            .catch(reject);
         }
       });
     });
   }
 
-  private createTables(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const activitySql = `
-      CREATE TABLE IF NOT EXISTS activity_logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        project_path TEXT,
-        file_path TEXT,
-        language TEXT,
-        timestamp INTEGER,
-        duration INTEGER,
-        editor TEXT,
-        commit_hash TEXT,
-        branch TEXT
-      );
-    `;
+  /**
+   * Bring the schema up to date by running every pending migration in order.
+   * Each migration runs in its own transaction and is rolled back on failure.
+   * Existing databases are backed up before the first pending migration runs.
+   */
+  private async migrate(dbPath: string, isNew: boolean): Promise<void> {
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        description TEXT,
+        applied_at INTEGER
+      )
+    `);
 
-      const commitSql = `
-      CREATE TABLE IF NOT EXISTS git_commits (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        project_path TEXT,
-        commit_hash TEXT UNIQUE,
-        message TEXT,
-        author TEXT,
-        author_email TEXT,
-        timestamp INTEGER,
-        files_changed INTEGER,
-        lines_added INTEGER,
-        lines_deleted INTEGER,
-        branch TEXT
-      );
-    `;
+    const [row] = await this.all<{ version: number | null }>(
+      "SELECT MAX(version) as version FROM schema_version"
+    );
+    const currentVersion = row?.version ?? 0;
+    const pending = MIGRATIONS.filter((m) => m.version > currentVersion).sort(
+      (a, b) => a.version - b.version
+    );
 
-      this.db?.run(activitySql, (err) => {
-        if (err) {
-          this.logger.error("Error creating activity_logs table", err);
-          reject(err);
-          return;
+    if (pending.length === 0) {
+      this.logger.info(`Database schema is up to date (v${currentVersion})`);
+      return;
+    }
+
+    if (!isNew) {
+      await this.backup(dbPath, currentVersion);
+    }
+
+    const ctx: MigrationContext = {
+      run: (sql, params) => this.run(sql, params),
+      all: (sql, params) => this.all(sql, params),
+      addColumn: async (table, column, definition) => {
+        const columns = await this.all<{ name: string }>(
+          `PRAGMA table_info(${table})`
+        );
+        if (!columns.some((col) => col.name === column)) {
+          await this.run(
+            `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`
+          );
         }
+      },
+    };
 
-        this.db?.run(commitSql, (err) => {
-          if (err) {
-            this.logger.error("Error creating git_commits table", err);
-            reject(err);
-            return;
-          }
+    for (const migration of pending) {
+      this.logger.info(
+        `Applying migration v${migration.version}: ${migration.description}`
+      );
+      // IMMEDIATE takes the write lock up front, so a window starting at the
+      // same time waits here and then sees the migration already applied
+      await this.run("BEGIN IMMEDIATE");
+      try {
+        const applied = await this.all(
+          "SELECT version FROM schema_version WHERE version = ?",
+          [migration.version]
+        );
+        if (applied.length > 0) {
+          await this.run("COMMIT");
+          continue;
+        }
 
-          // Migrate existing tables to add branch column if it doesn't exist
-          this.db?.all(
-            "PRAGMA table_info(activity_logs)",
-            (err, columns: any[]) => {
-              if (err) {
-                this.logger.error("Error checking activity_logs schema", err);
-                reject(err);
-                return;
-              }
+        await migration.up(ctx);
+        await this.run(
+          "INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)",
+          [migration.version, migration.description, Date.now()]
+        );
+        await this.run("COMMIT");
+      } catch (err) {
+        this.logger.error(`Migration v${migration.version} failed`, err);
+        await this.run("ROLLBACK").catch(() => undefined);
+        throw new Error(
+          `Database migration v${migration.version} failed: ${
+            (err as Error).message
+          }`
+        );
+      }
+    }
 
-              const hasBranch = columns.some((col) => col.name === "branch");
-
-              if (!hasBranch) {
-                this.logger.info(
-                  "Migrating activity_logs table to add branch column"
-                );
-                this.db?.run(
-                  "ALTER TABLE activity_logs ADD COLUMN branch TEXT",
-                  (err) => {
-                    if (err) {
-                      this.logger.error(
-                        "Error migrating activity_logs table",
-                        err
-                      );
-                      reject(err);
-                      return;
-                    }
-                    this.createIndexes(resolve, reject);
-                  }
-                );
-              } else {
-                this.createIndexes(resolve, reject);
-              }
-            }
-          );
-        });
-      });
+    this.logger.info(
+      `Database migrated from v${currentVersion} to v${
+        pending[pending.length - 1].version
+      }`
+    );
+  }
+
+  /**
+   * Copy the database next to itself before upgrading it.
+   * Only the backup from the most recent upgrade is kept.
+   */
+  private async backup(dbPath: string, version: number): Promise<void> {
+    const backupPath = `${dbPath}.bak`;
+    if (fs.existsSync(backupPath)) {
+      fs.unlinkSync(backupPath);
+    }
+    // VACUUM INTO writes a consistent copy even while the database is open
+    await this.run("VACUUM INTO ?", [backupPath]);
+    this.logger.info(`Backed up database (v${version}) to ${backupPath}`);
+  }
+
+  private run(sql: string, params: unknown[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject(new Error("Database is not initialized"));
+      }
+      this.db.run(sql, params, (err) => (err ? reject(err) : resolve()));
     });
   }
 
-  private createIndexes(resolve: () => void, reject: (err: Error) => void) {
-    this.logger.info("Creating database indexes");
-    // Create indexes for faster sync queries
-    this.db?.run(
-      "CREATE INDEX IF NOT EXISTS idx_commit_branch ON activity_logs(commit_hash, branch)",
-      (err) => {
-        if (err) {
-          this.logger.error("Error creating activity index", err);
-          reject(err);
-        } else {
-          this.db?.run(
-            "CREATE INDEX IF NOT EXISTS idx_timestamp ON activity_logs(timestamp)",
-            (err) => {
-              if (err) {
-                this.logger.error("Error creating timestamp index", err);
-                reject(err);
-              } else {
-                this.logger.info("Database tables and indexes initialized");
-                resolve();
-              }
-            }
-          );
-        }
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject(new Error("Database is not initialized"));
       }
-    );
+      this.db.all(sql, params, (err, rows) =>
+        err ? reject(err) : resolve(rows as T[])
+      );
+    });
   }
 
   public insertActivity(log: ActivityLog): Promise<void> {
     return new Promise((resolve, reject) => {
-      const sql = `INSERT INTO activity_logs (project_path, file_path, language, timestamp, duration, editor, commit_hash, branch) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+      const sql = `INSERT INTO activity_logs (project_path, file_path, language, timestamp, duration, editor, commit_hash, branch, category, git_state, ticket_key, description) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
       this.db?.run(
         sql,
         [
@@ -218,6 +444,10 @@ export class Database {
           log.editor || "vscode",
           log.commitHash || null,
           log.branch || null,
+          log.category || "coding",
+          log.gitState || null,
+          log.ticketKey || null,
+          log.description || null,
         ],
         (err) => {
           if (err) {
@@ -231,11 +461,72 @@ export class Database {
     });
   }
 
+  /**
+   * Insert many activity logs in a single transaction (used by imports)
+   */
+  public insertActivities(logs: ActivityLog[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const db = this.db;
+      if (!db || logs.length === 0) {
+        return resolve();
+      }
+
+      const sql = `INSERT INTO activity_logs (project_path, file_path, language, timestamp, duration, editor, commit_hash, branch, category, git_state, ticket_key, description) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+      db.serialize(() => {
+        db.run("BEGIN TRANSACTION");
+        const stmt = db.prepare(sql);
+        for (const log of logs) {
+          stmt.run([
+            log.projectPath,
+            log.filePath,
+            log.language,
+            log.timestamp,
+            log.duration,
+            log.editor || "vscode",
+            log.commitHash || null,
+            log.branch || null,
+            log.category || "coding",
+            log.gitState || null,
+            log.ticketKey || null,
+            log.description || null,
+          ]);
+        }
+        stmt.finalize((err) => {
+          if (err) {
+            this.logger.error("Error inserting activity logs", err);
+            db.run("ROLLBACK", () => reject(err));
+            return;
+          }
+          db.run("COMMIT", (commitErr) => {
+            if (commitErr) {
+              this.logger.error("Error committing activity logs", commitErr);
+              reject(commitErr);
+            } else {
+              resolve();
+            }
+          });
+        });
+      });
+    });
+  }
+
   public insertCommit(commit: GitCommit): Promise<void> {
     return new Promise((resolve, reject) => {
-      const sql = `INSERT OR REPLACE INTO git_commits 
+      // Commits are recorded again on every start (HEAD) and change; an
+      // upsert keeps the row, so its sync state survives
+      const sql = `INSERT INTO git_commits 
         (project_path, commit_hash, message, author, author_email, timestamp, files_changed, lines_added, lines_deleted, branch) 
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(commit_hash) DO UPDATE SET
+          project_path = excluded.project_path,
+          message = excluded.message,
+          author = excluded.author,
+          author_email = excluded.author_email,
+          timestamp = excluded.timestamp,
+          files_changed = excluded.files_changed,
+          lines_added = excluded.lines_added,
+          lines_deleted = excluded.lines_deleted,
+          branch = COALESCE(excluded.branch, branch)`;
       this.db?.run(
         sql,
         [
@@ -254,6 +545,10 @@ export class Database {
           if (err) {
             this.logger.error("Error inserting git commit", err);
             reject(err);
+          } else if (commit.files && commit.files.length > 0) {
+            this.insertCommitFiles(commit, commit.files)
+              .then(resolve)
+              .catch(reject);
           } else {
             resolve();
           }
@@ -262,6 +557,69 @@ export class Database {
     });
   }
 
+  /**
+   * Store per-file stats of a commit. Multi-row inserts keep each chunk
+   * atomic without a transaction on the shared connection.
+   */
+  private async insertCommitFiles(
+    commit: GitCommit,
+    files: CommitFileStat[]
+  ): Promise<void> {
+    const chunkSize = 100; // 7 parameters per row, well below SQLite's limit
+    for (let i = 0; i < files.length; i += chunkSize) {
+      const chunk = files.slice(i, i + chunkSize);
+      const values = chunk.map(() => "(?, ?, ?, ?, ?, ?, ?)").join(", ");
+      await this.run(
+        `INSERT OR REPLACE INTO commit_files
+          (commit_hash, project_path, file_path, old_path, lines_added, lines_deleted, binary)
+          VALUES ${values}`,
+        chunk.flatMap((file) => [
+          commit.commitHash,
+          commit.projectPath,
+          file.filePath,
+          file.oldPath || null,
+          file.linesAdded,
+          file.linesDeleted,
+          file.binary ? 1 : 0,
+        ])
+      );
+    }
+  }
+
+  /**
+   * Files changed by a commit with the time tracked on each of them for it.
+   * Time recorded under a renamed file's old path counts towards it.
+   */
+  public getCommitFileActivity(
+    commitHash: string
+  ): Promise<CommitFileActivity[]> {
+    const sql = `
+      SELECT
+        f.file_path as filePath,
+        f.old_path as oldPath,
+        f.lines_added as linesAdded,
+        f.lines_deleted as linesDeleted,
+        f.binary as binary,
+        COALESCE(SUM(a.duration), 0) as totalDuration
+      FROM commit_files f
+      LEFT JOIN activity_logs a
+        ON a.commit_hash = f.commit_hash
+        AND (a.file_path = f.file_path OR a.file_path = f.old_path)
+      WHERE f.commit_hash = ?
+      GROUP BY f.id
+      ORDER BY f.file_path
+    `;
+    return this.all<CommitFileActivity & { oldPath: string | null }>(sql, [
+      commitHash,
+    ]).then((rows) =>
+      rows.map((row) => ({
+        ...row,
+        oldPath: row.oldPath || undefined,
+        binary: !!row.binary,
+      }))
+    );
+  }
+
   public getUnsyncedLogs(limit: number = 50): Promise<ActivityLog[]> {
     return new Promise((resolve, reject) => {
       const sql = `SELECT id, project_path as projectPath, file_path as filePath, language, timestamp, duration, editor, commit_hash as commitHash FROM activity_logs ORDER BY timestamp ASC LIMIT ?`;
@@ -276,12 +634,16 @@ export class Database {
     });
   }
 
-  public getUnsyncedCommits(limit: number = 20): Promise<GitCommit[]> {
+  public getUnsyncedCommits(
+    limit: number = 20,
+    excludeProjects: string[] = []
+  ): Promise<GitCommit[]> {
     return new Promise((resolve, reject) => {
+      const exclude = excludeProjectsClause(excludeProjects);
       const sql = `SELECT id, project_path as projectPath, commit_hash as commitHash, message, author, author_email as authorEmail, 
         timestamp, files_changed as filesChanged, lines_added as linesAdded, lines_deleted as linesDeleted, branch 
-        FROM git_commits ORDER BY timestamp ASC LIMIT ?`;
-      this.db?.all(sql, [limit], (err, rows) => {
+        FROM git_commits WHERE synced_at IS NULL${exclude.sql} ORDER BY timestamp ASC LIMIT ?`;
+      this.db?.all(sql, [...exclude.params, limit], (err, rows) => {
         if (err) {
           this.logger.error("Error fetching unsynced commits", err);
           reject(err);
@@ -293,213 +655,1112 @@ export class Database {
   }
 
   /**
-   * Get aggregated file activity summaries grouped by commit, branch, and file
-   * This compresses individual activities into file-level summaries per commit
+   * Id of a file-stream batch that was formed but not confirmed by the server
+   * yet. It must be retried as-is before a new batch is formed.
    */
-  public getAggregatedActivities(
-    limit: number = 100
-  ): Promise<FileActivitySummary[]> {
+  public getPendingFileBatch(): Promise<string | undefined> {
     return new Promise((resolve, reject) => {
-      const sql = `
-        SELECT 
-          project_path as projectPath,
-          commit_hash as commitHash,
-          branch,
-          file_path as filePath,
-          language,
-          SUM(duration) as totalDuration,
-          COUNT(*) as activityCount,
-          MIN(timestamp) as firstActivityAt,
-          MAX(timestamp) as lastActivityAt,
-          MAX(editor) as editor
-        FROM activity_logs
-        WHERE commit_hash IS NOT NULL AND branch IS NOT NULL
-        GROUP BY project_path, commit_hash, branch, file_path
-        ORDER BY firstActivityAt ASC
-        LIMIT ?
-      `;
-      this.db?.all(sql, [limit], (err, rows) => {
+      const sql = `SELECT file_batch_id as batchId FROM activity_logs
+        WHERE file_batch_id IS NOT NULL AND file_synced_at IS NULL LIMIT 1`;
+      this.db?.get(sql, (err, row: any) => {
         if (err) {
-          this.logger.error("Error fetching aggregated activities", err);
+          this.logger.error("Error fetching pending file batch", err);
           reject(err);
         } else {
-          resolve(rows as FileActivitySummary[]);
+          resolve(row?.batchId ?? undefined);
         }
       });
     });
   }
 
   /**
-   * Delete activity logs that have been aggregated and synced
-   * Deletes activities for specific commit/branch/file combinations
+   * Take rows of projects that became local-only out of a pending batch, so
+   * a retry does not upload them. Resolves with the number of rows released.
    */
-  public deleteAggregatedActivities(
-    summaries: FileActivitySummary[]
-  ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (summaries.length === 0) {
-        return resolve();
-      }
-
-      // Build DELETE query for all matching activities
-      const deletions = summaries.map((summary) => {
-        return new Promise<void>((res, rej) => {
-          const sql = `DELETE FROM activity_logs WHERE project_path = ? AND commit_hash = ? AND branch = ? AND file_path = ?`;
-          this.db?.run(
-            sql,
-            [
-              summary.projectPath,
-              summary.commitHash,
-              summary.branch,
-              summary.filePath,
-            ],
-            (err) => {
-              if (err) {
-                this.logger.error("Error deleting aggregated activities", err);
-                rej(err);
-              } else {
-                res();
-              }
-            }
-          );
-        });
-      });
-
-      Promise.all(deletions)
-        .then(() => resolve())
-        .catch(reject);
-    });
-  }
-
-  public deleteLogs(ids: number[]): Promise<void> {
-    if (ids.length === 0) {
-      return Promise.resolve();
+  public releaseFromFileBatch(
+    batchId: string,
+    projects: string[]
+  ): Promise<number> {
+    if (projects.length === 0) {
+      return Promise.resolve(0);
     }
     return new Promise((resolve, reject) => {
-      const placeholders = ids.map(() => "?").join(",");
-      const sql = `DELETE FROM activity_logs WHERE id IN (${placeholders})`;
-      this.db?.run(sql, ids, (err) => {
+      const sql = `UPDATE activity_logs SET file_batch_id = NULL
+        WHERE file_batch_id = ? AND file_synced_at IS NULL
+          AND project_path IN (${placeholders(projects)})`;
+      const logger = this.logger;
+      this.db?.run(sql, [batchId, ...projects], function (err) {
         if (err) {
-          this.logger.error("Error deleting logs", err);
+          logger.error("Error releasing rows from file batch", err);
           reject(err);
         } else {
-          resolve();
+          resolve(this.changes);
         }
       });
     });
   }
 
-  public deleteCommits(ids: number[]): Promise<void> {
-    if (ids.length === 0) {
-      return Promise.resolve();
-    }
+  /**
+   * Form a new file-stream batch from the oldest unsynced rows (id <= upToId).
+   * Resolves with the number of rows in the batch.
+   */
+  public assignFileBatch(
+    batchId: string,
+    upToId: number,
+    limit: number = 500,
+    excludeProjects: string[] = [],
+    uncommittedHeads: Map<string, string> = new Map(),
+    uncommittedSince: number = 0
+  ): Promise<number> {
     return new Promise((resolve, reject) => {
-      const placeholders = ids.map(() => "?").join(",");
-      const sql = `DELETE FROM git_commits WHERE id IN (${placeholders})`;
-      this.db?.run(sql, ids, (err) => {
-        if (err) {
-          this.logger.error("Error deleting commits", err);
-          reject(err);
-        } else {
-          resolve();
+      const exclude = excludeProjectsClause(excludeProjects);
+      const uncommitted = excludeUncommittedClause(
+        uncommittedHeads,
+        uncommittedSince
+      );
+      const sql = `UPDATE activity_logs SET file_batch_id = ?
+        WHERE id IN (
+          SELECT id FROM activity_logs
+          WHERE ${FILE_SYNC_SCOPE} AND file_synced_at IS NULL AND file_batch_id IS NULL
+            AND id <= ?${exclude.sql}${uncommitted.sql}
+          ORDER BY id ASC
+          LIMIT ?
+        )`;
+      const logger = this.logger;
+      this.db?.run(
+        sql,
+        [batchId, upToId, ...exclude.params, ...uncommitted.params, limit],
+        function (err) {
+          if (err) {
+            logger.error("Error assigning file batch", err);
+            reject(err);
+          } else {
+            resolve(this.changes);
+          }
         }
-      });
+      );
     });
   }
 
   /**
-   * Get daily aggregated activities for syncing
-   * Groups activities by date and project
+   * Get aggregated file activity summaries grouped by commit, branch, and file
+   * This compresses the individual activities of one batch into file-level
+   * summaries per commit
    */
-  public getDailyAggregatedActivities(
-    limit: number = 30
-  ): Promise<DailyActivitySummary[]> {
+  public getAggregatedActivities(
+    batchId: string
+  ): Promise<FileActivitySummary[]> {
     return new Promise((resolve, reject) => {
       const sql = `
         SELECT 
-          DATE(timestamp / 1000, 'unixepoch') as date,
           project_path as projectPath,
-          SUM(duration) as totalDuration,
-          GROUP_CONCAT(DISTINCT file_path) as files,
-          COUNT(DISTINCT commit_hash) as commitCount,
+          commit_hash as commitHash,
+          branch,
+          file_path as filePath,
           language,
-          SUM(duration) as langDuration
+          COALESCE(category, 'coding') as category,
+          SUM(duration) as totalDuration,
+          COUNT(*) as activityCount,
+          MIN(timestamp) as firstActivityAt,
+          MAX(timestamp) as lastActivityAt,
+          MAX(editor) as editor,
+          MAX(ticket_key) as ticketKey
         FROM activity_logs
-        WHERE commit_hash IS NOT NULL AND commit_hash != ''
-        GROUP BY date, project_path, language
-        ORDER BY date DESC
-        LIMIT ?
+        WHERE file_batch_id = ?
+        GROUP BY project_path, commit_hash, branch, file_path, category
+        ORDER BY firstActivityAt ASC
       `;
-
-      this.db?.all(sql, [limit * 10], (err, rows: any[]) => {
+      this.db?.all(sql, [batchId], (err, rows: any[]) => {
         if (err) {
-          this.logger.error("Error fetching daily aggregated activities", err);
+          this.logger.error("Error fetching aggregated activities", err);
           reject(err);
           return;
         }
 
-        // Group by date and project
-        const summaryMap = new Map<string, DailyActivitySummary>();
+        // One summary per file, with its time split by category
+        const summaryMap = new Map<string, FileActivitySummary>();
 
         rows.forEach((row) => {
-          const key = `${row.date}||${row.projectPath}`;
+          const { category, ...fields } = row;
+          const key = `${row.projectPath}||${row.commitHash}||${row.branch}||${row.filePath}`;
+          const summary = summaryMap.get(key);
 
-          if (!summaryMap.has(key)) {
+          if (!summary) {
             summaryMap.set(key, {
-              date: row.date,
-              projectPath: row.projectPath,
-              totalDuration: 0,
-              languageBreakdown: {},
-              filesEdited: [],
-              commitCount: row.commitCount || 0,
+              ...fields,
+              categoryBreakdown: { [category]: row.totalDuration },
             });
+            return;
           }
 
-          const summary = summaryMap.get(key)!;
-          summary.totalDuration += row.langDuration;
-          summary.languageBreakdown[row.language] =
-            (summary.languageBreakdown[row.language] || 0) + row.langDuration;
-
-          if (row.files) {
-            const files = row.files.split(",");
-            summary.filesEdited = [
-              ...new Set([...summary.filesEdited, ...files]),
-            ];
-          }
+          summary.totalDuration += row.totalDuration;
+          summary.activityCount += row.activityCount;
+          summary.firstActivityAt = Math.min(
+            summary.firstActivityAt,
+            row.firstActivityAt
+          );
+          summary.lastActivityAt = Math.max(
+            summary.lastActivityAt,
+            row.lastActivityAt
+          );
+          summary.categoryBreakdown[category] =
+            (summary.categoryBreakdown[category] || 0) + row.totalDuration;
+          summary.ticketKey = summary.ticketKey || row.ticketKey;
         });
 
-        resolve(Array.from(summaryMap.values()).slice(0, limit));
+        resolve(Array.from(summaryMap.values()));
       });
     });
   }
 
   /**
-   * Delete activities that have been aggregated into daily stats
+   * Mark the rows of a file-stream batch as synced
    */
-  public deleteActivitiesBeforeDate(beforeDate: string): Promise<void> {
+  public markFileBatchSynced(batchId: string): Promise<void> {
     return new Promise((resolve, reject) => {
-      const sql = `
-        DELETE FROM activity_logs 
-        WHERE DATE(timestamp / 1000, 'unixepoch') < ?
-      `;
-
-      this.db?.run(sql, [beforeDate], (err) => {
+      const sql = `UPDATE activity_logs SET file_synced_at = ? WHERE file_batch_id = ?`;
+      this.db?.run(sql, [Date.now(), batchId], (err) => {
         if (err) {
-          this.logger.error("Error deleting old activities", err);
+          this.logger.error("Error marking file batch synced", err);
           reject(err);
         } else {
-          this.logger.info(`Deleted activities before ${beforeDate}`);
           resolve();
         }
       });
     });
   }
 
-  public close() {
-    this.db?.close((err) => {
-      if (err) {
-        this.logger.error("Error closing database", err);
-      }
-    });
-  }
+  /**
+   * Move activity on the given files from the HEAD it was recorded against to
+   * the commit it produced. Rows already handed to the file stream keep their
+   * commit. Resolves with the number of rows moved.
+   */
+  public reattributeActivities(
+    projectPath: string,
+    fromCommit: string,
+    toCommit: string,
+    branch: string | undefined,
+    filePaths: string[],
+    ticketKey?: string
+  ): Promise<number> {
+    if (filePaths.length === 0) {
+      return Promise.resolve(0);
+    }
+    return new Promise((resolve, reject) => {
+      const placeholders = filePaths.map(() => "?").join(",");
+      const sql = `UPDATE activity_logs
+        SET commit_hash = ?, ticket_key = COALESCE(ticket_key, ?)
+        WHERE project_path = ? AND commit_hash = ? AND branch IS ?
+          AND file_batch_id IS NULL AND file_synced_at IS NULL
+          AND file_path IN (${placeholders})`;
+      const logger = this.logger;
+      this.db?.run(
+        sql,
+        [
+          toCommit,
+          ticketKey ?? null,
+          projectPath,
+          fromCommit,
+          branch ?? null,
+          ...filePaths,
+        ],
+        function (err) {
+          if (err) {
+            logger.error("Error re-attributing activities", err);
+            reject(err);
+          } else {
+            resolve(this.changes);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Time tracked for a commit: in total, per language and the number of
+   * files it was spent on
+   */
+  public getCommitTime(commitHash: string): Promise<{
+    totalDuration: number;
+    languageBreakdown: Record<string, number>;
+    fileCount: number;
+  }> {
+    return new Promise((resolve, reject) => {
+      const sql = `SELECT language, file_path as filePath, SUM(duration) as totalDuration
+        FROM activity_logs
+        WHERE commit_hash = ?
+        GROUP BY language, file_path`;
+      this.db?.all(sql, [commitHash], (err, rows: any[]) => {
+        if (err) {
+          this.logger.error("Error fetching commit time", err);
+          reject(err);
+          return;
+        }
+
+        const languageBreakdown: Record<string, number> = {};
+        const files = new Set<string>();
+        let totalDuration = 0;
+        for (const row of rows) {
+          totalDuration += row.totalDuration;
+          languageBreakdown[row.language] =
+            (languageBreakdown[row.language] || 0) + row.totalDuration;
+          if (row.filePath) files.add(row.filePath);
+        }
+        resolve({ totalDuration, languageBreakdown, fileCount: files.size });
+      });
+    });
+  }
+
+  /**
+   * Time recorded in a repository against its current HEAD on a branch,
+   * i.e. the work that has not been committed yet
+   */
+  public getUncommittedDuration(
+    projectPath: string,
+    commitHash: string,
+    branch: string | undefined
+  ): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const sql = `SELECT COALESCE(SUM(duration), 0) as totalDuration
+        FROM activity_logs
+        WHERE project_path = ? AND commit_hash = ? AND branch IS ?`;
+      this.db?.get(
+        sql,
+        [projectPath, commitHash, branch ?? null],
+        (err, row: any) => {
+          if (err) {
+            this.logger.error("Error fetching uncommitted duration", err);
+            reject(err);
+          } else {
+            resolve(row?.totalDuration ?? 0);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Branches and commit messages of rows without a ticket key yet
+   */
+  public getUnticketedSources(): Promise<{
+    branches: string[];
+    commits: { commitHash: string; message: string }[];
+  }> {
+    return new Promise((resolve, reject) => {
+      const branchSql = `SELECT DISTINCT branch FROM activity_logs
+        WHERE ticket_key IS NULL AND branch IS NOT NULL AND branch != ''`;
+      const commitSql = `SELECT DISTINCT c.commit_hash as commitHash, c.message
+        FROM activity_logs a
+        JOIN git_commits c ON c.commit_hash = a.commit_hash
+        WHERE a.ticket_key IS NULL`;
+      this.db?.all(branchSql, (err, branchRows: any[]) => {
+        if (err) {
+          this.logger.error("Error fetching unticketed branches", err);
+          reject(err);
+          return;
+        }
+        this.db?.all(commitSql, (err, commitRows: any[]) => {
+          if (err) {
+            this.logger.error("Error fetching unticketed commits", err);
+            reject(err);
+          } else {
+            resolve({
+              branches: branchRows.map((row) => row.branch),
+              commits: commitRows,
+            });
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Forget ticket keys that were found by the ticket patterns, so they can
+   * be assigned again with new ones. Keys entered by hand (manual entries,
+   * corrected rows) are kept.
+   */
+  public clearDerivedTicketKeys(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const sql = `UPDATE activity_logs SET ticket_key = NULL
+        WHERE ticket_key IS NOT NULL AND editor != ? AND edited_at IS NULL`;
+      this.db?.run(sql, [MANUAL_EDITOR], (err) => {
+        if (err) {
+          this.logger.error("Error clearing ticket keys", err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Set the ticket key of rows on a branch (or of a commit) that have none
+   */
+  public assignTicketKey(
+    ticketKey: string,
+    match: { branch: string } | { commitHash: string }
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const [column, value] =
+        "branch" in match
+          ? ["branch", match.branch]
+          : ["commit_hash", match.commitHash];
+      const sql = `UPDATE activity_logs SET ticket_key = ?
+        WHERE ${column} = ? AND ticket_key IS NULL`;
+      this.db?.run(sql, [ticketKey, value], (err) => {
+        if (err) {
+          this.logger.error("Error assigning ticket key", err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Time tracked on a ticket: in total, since `since`, and how many branches
+   * and commits it spans
+   */
+  public getTicketTotals(
+    ticketKey: string,
+    since: number
+  ): Promise<{
+    totalDuration: number;
+    recentDuration: number;
+    branchCount: number;
+    commitCount: number;
+  }> {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT
+          COALESCE(SUM(duration), 0) as totalDuration,
+          COALESCE(SUM(CASE WHEN timestamp >= ? THEN duration ELSE 0 END), 0) as recentDuration,
+          COUNT(DISTINCT branch) as branchCount,
+          COUNT(DISTINCT commit_hash) as commitCount
+        FROM activity_logs
+        WHERE ticket_key = ?
+      `;
+      this.db?.get(sql, [since, ticketKey], (err, row: any) => {
+        if (err) {
+          this.logger.error("Error fetching ticket totals", err);
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
+  /**
+   * Correct the project, ticket or category of activity rows and mark them
+   * as edited. The server adds up file activity, so once any of the rows
+   * was uploaded with its commit (or is being uploaded), none are changed.
+   * Daily stats the rows were already part of are queued to be sent again.
+   * Resolves with the number of rows changed.
+   */
+  public async updateActivities(
+    ids: number[],
+    changes: Partial<
+      Pick<ActivityLog, "projectPath" | "ticketKey" | "category">
+    >
+  ): Promise<number> {
+    const columns: Record<string, string> = {
+      projectPath: "project_path",
+      ticketKey: "ticket_key",
+      category: "category",
+    };
+    const fields = Object.entries(changes).filter(
+      ([key, value]) => columns[key] && value !== undefined
+    );
+    if (ids.length === 0 || fields.length === 0) {
+      return 0;
+    }
+
+    const statements: Statement[] = [];
+    // Daily stats have no tickets
+    if (changes.projectPath !== undefined || changes.category !== undefined) {
+      statements.push(resyncDailyStatement(ids));
+    }
+    if (changes.projectPath !== undefined) {
+      statements.push(resyncDailyStatement(ids, changes.projectPath));
+    }
+
+    const assignments = fields.map(([key]) => `${columns[key]} = ?`).join(", ");
+    const unlocked = notUploadedClause(ids);
+    statements.push({
+      sql: `UPDATE activity_logs SET ${assignments}, edited_at = ?
+        WHERE id IN (${placeholders(ids)}) AND ${unlocked.sql}`,
+      params: [
+        ...fields.map(([, value]) => value),
+        Date.now(),
+        ...ids,
+        ...unlocked.params,
+      ],
+    });
+
+    try {
+      return await this.runTransaction(statements);
+    } catch (err) {
+      this.logger.error("Error updating activities", err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Delete activity rows, unless any of them was uploaded with its commit
+   * (see updateActivities). Daily stats they were part of are queued to be
+   * sent again. Resolves with the number of rows deleted.
+   */
+  public async deleteLogs(ids: number[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const unlocked = notUploadedClause(ids);
+    try {
+      return await this.runTransaction([
+        resyncDailyStatement(ids),
+        {
+          sql: `DELETE FROM activity_logs
+            WHERE id IN (${placeholders(ids)}) AND ${unlocked.sql}`,
+          params: [...ids, ...unlocked.params],
+        },
+      ]);
+    } catch (err) {
+      this.logger.error("Error deleting logs", err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Replace activity rows by one row with the same attribution and a new
+   * time, e.g. a span whose start or end was corrected. Refused like
+   * updateActivities once any row was uploaded; daily stats the rows were
+   * part of are sent again. Resolves with the number of rows written.
+   */
+  public async replaceActivities(
+    ids: number[],
+    log: ActivityLog
+  ): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const unlocked = notUploadedClause(ids);
+    try {
+      return await this.runTransaction([
+        resyncDailyStatement(ids),
+        {
+          sql: `DELETE FROM activity_logs
+            WHERE id IN (${placeholders(ids)}) AND ${unlocked.sql}`,
+          params: [...ids, ...unlocked.params],
+        },
+        {
+          // Only when the rows were actually deleted
+          sql: `INSERT INTO activity_logs (project_path, file_path, language, timestamp, duration, editor, commit_hash, branch, category, git_state, ticket_key, description, edited_at)
+            SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ? WHERE changes() > 0`,
+          params: [
+            log.projectPath,
+            log.filePath,
+            log.language,
+            log.timestamp,
+            log.duration,
+            log.editor || "vscode",
+            log.commitHash || null,
+            log.branch || null,
+            log.category || "coding",
+            log.gitState || null,
+            log.ticketKey || null,
+            log.description || null,
+            Date.now(),
+          ],
+        },
+      ]);
+    } catch (err) {
+      this.logger.error("Error replacing activities", err as Error);
+      throw err;
+    }
+  }
+
+  /**
+   * Run statements in one transaction. Resolves with the number of rows the
+   * last one changed.
+   */
+  private runTransaction(statements: Statement[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const db = this.db;
+      if (!db) {
+        return reject(new Error("Database is not initialized"));
+      }
+
+      let failure: Error | null = null;
+      let changes = 0;
+      db.serialize(() => {
+        db.run("BEGIN TRANSACTION");
+        statements.forEach(({ sql, params }, index) => {
+          db.run(sql, params, function (err) {
+            if (err) {
+              failure = failure ?? err;
+            } else {
+              changes = this.changes;
+            }
+            if (index < statements.length - 1) return;
+
+            if (failure) {
+              const cause = failure;
+              db.run("ROLLBACK", () => reject(cause));
+              return;
+            }
+            db.run("COMMIT", (commitErr) =>
+              commitErr ? reject(commitErr) : resolve(changes)
+            );
+          });
+        });
+      });
+    });
+  }
+
+  public markCommitsSynced(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const placeholders = ids.map(() => "?").join(",");
+      const sql = `UPDATE git_commits SET synced_at = ? WHERE id IN (${placeholders})`;
+      this.db?.run(sql, [Date.now(), ...ids], (err) => {
+        if (err) {
+          this.logger.error("Error marking commits synced", err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  public insertFocusSession(session: FocusSession): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const sql = `INSERT INTO focus_sessions (started_at, ended_at, duration)
+        VALUES (?, ?, ?)`;
+      this.db?.run(
+        sql,
+        [session.startedAt, session.endedAt, session.duration],
+        (err) => {
+          if (err) {
+            this.logger.error("Error inserting focus session", err);
+            reject(err);
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+  }
+
+  public getUnsyncedFocusSessions(limit: number = 50): Promise<FocusSession[]> {
+    return new Promise((resolve, reject) => {
+      const sql = `SELECT id, started_at as startedAt, ended_at as endedAt, duration
+        FROM focus_sessions WHERE synced_at IS NULL ORDER BY started_at ASC LIMIT ?`;
+      this.db?.all(sql, [limit], (err, rows) => {
+        if (err) {
+          this.logger.error("Error fetching unsynced focus sessions", err);
+          reject(err);
+        } else {
+          resolve(rows as FocusSession[]);
+        }
+      });
+    });
+  }
+
+  public markFocusSessionsSynced(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const placeholders = ids.map(() => "?").join(",");
+      const sql = `UPDATE focus_sessions SET synced_at = ? WHERE id IN (${placeholders})`;
+      this.db?.run(sql, [Date.now(), ...ids], (err) => {
+        if (err) {
+          this.logger.error("Error marking focus sessions synced", err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Completed focus sessions per local day since `since`, newest day first.
+   * `activityCount` is the number of sessions.
+   */
+  public getFocusSessionTotals(
+    since: number,
+    limit: number = 30
+  ): Promise<ActivityTotal[]> {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT
+          DATE(started_at / 1000, 'unixepoch', 'localtime') as key,
+          DATE(started_at / 1000, 'unixepoch', 'localtime') as label,
+          SUM(duration) as totalDuration,
+          COUNT(*) as activityCount
+        FROM focus_sessions
+        WHERE started_at >= ?
+        GROUP BY key
+        ORDER BY key DESC
+        LIMIT ?
+      `;
+      this.db?.all(sql, [since, limit], (err, rows) => {
+        if (err) {
+          this.logger.error("Error fetching focus session totals", err);
+          reject(err);
+        } else {
+          resolve(rows as ActivityTotal[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Highest activity id right now. Sync passes only read and mark rows up to
+   * this id, so rows written meanwhile are never marked without being sent.
+   */
+  public getMaxActivityId(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db?.get(
+        "SELECT MAX(id) as maxId FROM activity_logs",
+        (err, row: any) => {
+          if (err) {
+            this.logger.error("Error fetching max activity id", err);
+            reject(err);
+          } else {
+            resolve(row?.maxId ?? 0);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Get daily aggregated activities for syncing
+   * Groups activities by date and project, oldest day first, for days before
+   * `beforeDate` (YYYY-MM-DD) that have rows not yet synced by the daily stream.
+   * The server replaces a day's stats on upsert, so a day is always sent whole.
+   * Only rows with id <= upToId are included.
+   */
+  public getDailyAggregatedActivities(
+    beforeDate: string,
+    upToId: number,
+    limit: number = 30,
+    excludeProjects: string[] = []
+  ): Promise<DailyActivitySummary[]> {
+    return new Promise((resolve, reject) => {
+      const exclude = excludeProjectsClause(excludeProjects);
+      const scope = `${DAILY_SYNC_SCOPE} AND id <= ?${exclude.sql}`;
+      // Pick (date, project) groups with unsynced rows or corrections first,
+      // then aggregate them whole. A group left without rows (all moved or
+      // deleted) yields a single row without language.
+      const sql = `
+        WITH days AS (
+          SELECT day, project FROM (
+            SELECT DATE(timestamp / 1000, 'unixepoch') as day, project_path as project
+            FROM activity_logs
+            WHERE ${scope} AND daily_synced_at IS NULL
+              AND DATE(timestamp / 1000, 'unixepoch') < ?
+            UNION
+            SELECT date as day, project_path as project
+            FROM daily_resync
+            WHERE date < ?${exclude.sql}
+          )
+          ORDER BY day ASC
+          LIMIT ?
+        )
+        SELECT 
+          days.day as date,
+          days.project as projectPath,
+          SUM(duration) as totalDuration,
+          GROUP_CONCAT(DISTINCT NULLIF(file_path, '')) as files,
+          COUNT(DISTINCT commit_hash) as commitCount,
+          language,
+          COALESCE(category, 'coding') as category,
+          SUM(duration) as langDuration
+        FROM days
+        LEFT JOIN activity_logs ON days.day = DATE(timestamp / 1000, 'unixepoch')
+          AND days.project = project_path AND ${scope}
+        GROUP BY days.day, days.project, language, category
+        ORDER BY days.day ASC
+      `;
+      const params = [
+        upToId,
+        ...exclude.params,
+        beforeDate,
+        beforeDate,
+        ...exclude.params,
+        limit,
+        upToId,
+        ...exclude.params,
+      ];
+
+      this.db?.all(sql, params, (err, rows: any[]) => {
+        if (err) {
+          this.logger.error("Error fetching daily aggregated activities", err);
+          reject(err);
+          return;
+        }
+
+        resolve(groupDailySummaries(rows));
+      });
+    });
+  }
+
+  /**
+   * Tracked time per local day and project for [since, until), in the same
+   * shape as the daily sync aggregation but regardless of sync state
+   */
+  public getDailySummaries(
+    since: number,
+    until: number
+  ): Promise<DailyActivitySummary[]> {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT
+          DATE(timestamp / 1000, 'unixepoch', 'localtime') as date,
+          project_path as projectPath,
+          GROUP_CONCAT(DISTINCT NULLIF(file_path, '')) as files,
+          COUNT(DISTINCT commit_hash) as commitCount,
+          language,
+          COALESCE(category, 'coding') as category,
+          SUM(duration) as langDuration
+        FROM activity_logs
+        WHERE timestamp >= ? AND timestamp < ?
+        GROUP BY date, project_path, language, category
+        ORDER BY date ASC
+      `;
+      this.db?.all(sql, [since, until], (err, rows: any[]) => {
+        if (err) {
+          this.logger.error("Error fetching daily summaries", err);
+          reject(err);
+        } else {
+          resolve(groupDailySummaries(rows));
+        }
+      });
+    });
+  }
+
+  /**
+   * Mark the rows behind synced daily summaries as synced
+   */
+  public markDailyActivitiesSynced(
+    summaries: DailyActivitySummary[],
+    upToId: number
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (summaries.length === 0) {
+        return resolve();
+      }
+
+      const syncedAt = Date.now();
+      const updates = summaries.flatMap((summary) => [
+        new Promise<void>((res, rej) => {
+          const sql = `UPDATE activity_logs SET daily_synced_at = ?
+            WHERE DATE(timestamp / 1000, 'unixepoch') = ? AND project_path = ?
+              AND ${DAILY_SYNC_SCOPE} AND daily_synced_at IS NULL AND id <= ?`;
+          this.db?.run(
+            sql,
+            [syncedAt, summary.date, summary.projectPath, upToId],
+            (err) => {
+              if (err) {
+                this.logger.error("Error marking daily activities synced", err);
+                rej(err);
+              } else {
+                res();
+              }
+            }
+          );
+        }),
+        new Promise<void>((res, rej) => {
+          const sql = `DELETE FROM daily_resync WHERE date = ? AND project_path = ?`;
+          this.db?.run(sql, [summary.date, summary.projectPath], (err) => {
+            if (err) {
+              this.logger.error("Error clearing daily resync", err);
+              rej(err);
+            } else {
+              res();
+            }
+          });
+        }),
+      ]);
+
+      Promise.all(updates)
+        .then(() => resolve())
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Get raw activity logs matching a filter, oldest first
+   */
+  public getActivities(filter: ActivityFilter = {}): Promise<ActivityLog[]> {
+    return new Promise((resolve, reject) => {
+      const where = activityFilterClause(filter);
+      const sql = `SELECT id, project_path as projectPath, file_path as filePath, language, timestamp, duration, editor,
+        commit_hash as commitHash, branch, category, git_state as gitState, ticket_key as ticketKey,
+        description, edited_at as editedAt
+        FROM activity_logs ${where.sql} ORDER BY timestamp ASC`;
+      this.db?.all(sql, where.params, (err, rows) => {
+        if (err) {
+          this.logger.error("Error fetching activities", err);
+          reject(err);
+        } else {
+          resolve(rows as ActivityLog[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get git commits matching a filter, oldest first
+   */
+  public getCommits(filter: ActivityFilter = {}): Promise<GitCommit[]> {
+    return new Promise((resolve, reject) => {
+      const where = activityFilterClause(filter);
+      const sql = `SELECT id, project_path as projectPath, commit_hash as commitHash, message, author, author_email as authorEmail,
+        timestamp, files_changed as filesChanged, lines_added as linesAdded, lines_deleted as linesDeleted, branch
+        FROM git_commits ${where.sql} ORDER BY timestamp ASC`;
+      this.db?.all(sql, where.params, (err, rows) => {
+        if (err) {
+          this.logger.error("Error fetching commits", err);
+          reject(err);
+        } else {
+          resolve(rows as GitCommit[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get every project path that has activity or commits stored locally
+   */
+  public getProjectPaths(): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT DISTINCT project_path as projectPath FROM activity_logs
+        UNION
+        SELECT DISTINCT project_path as projectPath FROM git_commits
+      `;
+      this.db?.all(sql, (err, rows: any[]) => {
+        if (err) {
+          this.logger.error("Error fetching project paths", err);
+          reject(err);
+        } else {
+          resolve(
+            rows
+              .map((row) => row.projectPath as string)
+              .filter((projectPath) => !!projectPath)
+          );
+        }
+      });
+    });
+  }
+
+  /**
+   * Get total tracked time grouped by a single dimension, for the local dashboard
+   */
+  public getActivityTotals(
+    dimension: ActivityDimension,
+    since: number,
+    limit: number = 30
+  ): Promise<ActivityTotal[]> {
+    return new Promise((resolve, reject) => {
+      const column = DIMENSION_COLUMNS[dimension];
+      // Commits are labelled with their message when we know it
+      const label =
+        dimension === "commit"
+          ? "COALESCE(MAX(c.message), a.commit_hash)"
+          : column;
+      const join =
+        dimension === "commit"
+          ? "LEFT JOIN git_commits c ON c.commit_hash = a.commit_hash"
+          : "";
+      const order = dimension === "day" ? "key DESC" : "totalDuration DESC";
+
+      const sql = `
+        SELECT
+          ${column} as key,
+          ${label} as label,
+          SUM(a.duration) as totalDuration,
+          COUNT(*) as activityCount
+        FROM activity_logs a
+        ${join}
+        WHERE a.timestamp >= ? AND ${column} IS NOT NULL AND ${column} != ''
+        GROUP BY key
+        ORDER BY ${order}
+        LIMIT ?
+      `;
+
+      this.db?.all(sql, [since, limit], (err, rows) => {
+        if (err) {
+          this.logger.error(
+            `Error fetching activity totals by ${dimension}`,
+            err
+          );
+          reject(err);
+        } else {
+          resolve(rows as ActivityTotal[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get tracked time since a timestamp grouped by project and language
+   */
+  public getActivityBreakdown(since: number): Promise<ActivityBreakdown[]> {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT
+          project_path as projectPath,
+          language,
+          SUM(duration) as totalDuration
+        FROM activity_logs
+        WHERE timestamp >= ?
+        GROUP BY project_path, language
+      `;
+      this.db?.all(sql, [since], (err, rows) => {
+        if (err) {
+          this.logger.error("Error fetching activity breakdown", err);
+          reject(err);
+        } else {
+          resolve(rows as ActivityBreakdown[]);
+        }
+      });
+    });
+  }
+
+  /**
+   * Delete history older than the retention window. Rows are only removed once
+   * every sync stream they belong to has uploaded them; projects in
+   * `localOnlyProjects` are never synced, so they only age out. Commits in
+   * `keepCommits` (checked out HEADs) stay, since they would be recorded and
+   * uploaded again on the next start.
+   */
+  public pruneHistory(
+    before: number,
+    localOnlyProjects: string[] = [],
+    keepCommits: string[] = []
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const placeholders = localOnlyProjects.map(() => "?").join(",");
+      const localOnly =
+        localOnlyProjects.length > 0
+          ? `project_path IN (${placeholders}) OR `
+          : "";
+
+      const activitySql = `
+        DELETE FROM activity_logs
+        WHERE timestamp < ? AND (${localOnly}(
+          (daily_synced_at IS NOT NULL OR NOT ${DAILY_SYNC_SCOPE})
+          AND (file_synced_at IS NOT NULL OR NOT ${FILE_SYNC_SCOPE})
+        ))
+      `;
+      const keep =
+        keepCommits.length > 0
+          ? ` AND commit_hash NOT IN (${keepCommits.map(() => "?").join(",")})`
+          : "";
+      const commitSql = `
+        DELETE FROM git_commits
+        WHERE timestamp < ? AND (${localOnly}synced_at IS NOT NULL)${keep}
+      `;
+      const params = [before, ...localOnlyProjects];
+
+      this.db?.run(activitySql, params, (err) => {
+        if (err) {
+          this.logger.error("Error pruning old activities", err);
+          reject(err);
+          return;
+        }
+        this.db?.run(commitSql, [...params, ...keepCommits], (err) => {
+          if (err) {
+            this.logger.error("Error pruning old commits", err);
+            reject(err);
+            return;
+          }
+          this.db?.run(
+            "DELETE FROM commit_files WHERE commit_hash NOT IN (SELECT commit_hash FROM git_commits)",
+            (err) => {
+              if (err) {
+                this.logger.error("Error pruning commit files", err);
+                reject(err);
+                return;
+              }
+              this.db?.run(
+                "DELETE FROM focus_sessions WHERE ended_at < ? AND synced_at IS NOT NULL",
+                [before],
+                (err) => {
+                  if (err) {
+                    this.logger.error("Error pruning focus sessions", err);
+                    reject(err);
+                  } else {
+                    resolve();
+                  }
+                }
+              );
+            }
+          );
+        });
+      });
+    });
+  }
+
+  public close() {
+    this.db?.close((err) => {
+      if (err) {
+        this.logger.error("Error closing database", err);
+      }
+    });
+  }
+}
+
+/**
+ * Fold (date, project, language, category) rows into one summary per date
+ * and project
+ */
+function groupDailySummaries(rows: any[]): DailyActivitySummary[] {
+  const summaryMap = new Map<string, DailyActivitySummary>();
+
+  rows.forEach((row) => {
+    const key = `${row.date}||${row.projectPath}`;
+
+    if (!summaryMap.has(key)) {
+      summaryMap.set(key, {
+        date: row.date,
+        projectPath: row.projectPath,
+        totalDuration: 0,
+        languageBreakdown: {},
+        categoryBreakdown: {},
+        filesEdited: [],
+        commitCount: row.commitCount || 0,
+      });
+    }
+
+    const summary = summaryMap.get(key)!;
+    // Group without any rows left: sent with zero time
+    if (row.langDuration === null) return;
+
+    summary.totalDuration += row.langDuration;
+    summary.languageBreakdown[row.language] =
+      (summary.languageBreakdown[row.language] || 0) + row.langDuration;
+    summary.categoryBreakdown[row.category] =
+      (summary.categoryBreakdown[row.category] || 0) + row.langDuration;
+
+    if (row.files) {
+      const files = row.files.split(",");
+      summary.filesEdited = [...new Set([...summary.filesEdited, ...files])];
+    }
+  });
+
+  return Array.from(summaryMap.values());
 }
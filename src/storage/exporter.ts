@@ -0,0 +1,351 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as os from "os";
+import { Logger } from "../utils/logger";
+import { localDate } from "../utils/format";
+import {
+  Database,
+  ActivityCategory,
+  ActivityFilter,
+  ActivityLog,
+  GitCommit,
+} from "./database";
+
+export type ExportFormat = "csv" | "ndjson" | "wakatime";
+
+// Heartbeat as found in WakaTime's data dumps
+export interface WakaTimeHeartbeat {
+  entity: string;
+  type: string;
+  category?: string;
+  time: number; // Unix seconds, may contain fractions
+  project?: string;
+  branch?: string;
+  language?: string;
+  is_write?: boolean;
+  user_agent?: string;
+}
+
+// WakaTime's names for our activity categories
+export const WAKATIME_CATEGORIES: Record<ActivityCategory, string> = {
+  coding: "coding",
+  debugging: "debugging",
+  terminal: "building",
+  testing: "running tests",
+  reviewing: "code reviewing",
+  meeting: "meeting",
+};
+
+const FORMATS: { label: string; format: ExportFormat; extension: string }[] = [
+  { label: "CSV", format: "csv", extension: "csv" },
+  { label: "Newline-delimited JSON", format: "ndjson", extension: "ndjson" },
+  {
+    label: "WakaTime heartbeats (JSON)",
+    format: "wakatime",
+    extension: "json",
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Dumps locally stored activity logs and commits to files so they can be
+ * reconciled in spreadsheets or loaded into other time trackers.
+ */
+export class DataExporter {
+  private logger = Logger.getInstance();
+
+  constructor(private db: Database) {}
+
+  /**
+   * Ask for range, project, format and destination, then write the export
+   */
+  public async promptAndExport() {
+    const filter = await this.pickFilter();
+    if (!filter) return;
+
+    const format = await vscode.window.showQuickPick(FORMATS, {
+      placeHolder: "Export format",
+    });
+    if (!format) return;
+
+    const defaultName = `miss-minutes-${new Date()
+      .toISOString()
+      .slice(0, 10)}.${format.extension}`;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(
+          vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir(),
+          defaultName
+        )
+      ),
+      filters: { [format.label]: [format.extension] },
+    });
+    if (!target) return;
+
+    // The save dialog only asked about the main file
+    if (format.format === "csv") {
+      const commitsTarget = commitsCsvUri(target);
+      if (await exists(commitsTarget)) {
+        const overwrite = await vscode.window.showWarningMessage(
+          `${path.basename(commitsTarget.fsPath)} already exists. Replace it?`,
+          { modal: true },
+          "Replace"
+        );
+        if (overwrite !== "Replace") return;
+      }
+    }
+
+    try {
+      const counts = await this.exportTo(target, format.format, filter);
+      vscode.window.showInformationMessage(
+        `Miss-Minutes: Exported ${counts.activities} activities and ${counts.commits} commits`
+      );
+    } catch (err) {
+      this.logger.error("Export failed", err as Error);
+      vscode.window.showErrorMessage(
+        `Miss-Minutes: Export failed: ${(err as Error).message}`
+      );
+    }
+  }
+
+  public async exportTo(
+    target: vscode.Uri,
+    format: ExportFormat,
+    filter: ActivityFilter
+  ): Promise<{ activities: number; commits: number }> {
+    const activities = await this.db.getActivities(filter);
+    const commits = await this.db.getCommits(filter);
+
+    switch (format) {
+      case "csv":
+        await writeFile(target, activitiesToCsv(activities));
+        await writeFile(commitsCsvUri(target), commitsToCsv(commits));
+        break;
+      case "ndjson":
+        // Commit records carry their per-file stats and tracked time
+        for (const commit of commits) {
+          commit.files = await this.db.getCommitFileActivity(commit.commitHash);
+        }
+        await writeFile(target, toNdjson(activities, commits));
+        break;
+      case "wakatime":
+        // The heartbeat schema has no notion of commits
+        await writeFile(target, toWakaTime(activities, filter));
+        break;
+    }
+
+    this.logger.info(
+      `Exported ${activities.length} activities and ${commits.length} commits to ${target.fsPath}`
+    );
+    return { activities: activities.length, commits: commits.length };
+  }
+
+  private async pickFilter(): Promise<ActivityFilter | undefined> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const ranges: (vscode.QuickPickItem & { days?: number })[] = [
+      { label: "Today", days: 1 },
+      { label: "Last 7 days", days: 7 },
+      { label: "Last 30 days", days: 30 },
+      { label: "All time" },
+      { label: "Custom range..." },
+    ];
+
+    const range = await vscode.window.showQuickPick(ranges, {
+      placeHolder: "Date range to export",
+    });
+    if (!range) return undefined;
+
+    const filter: ActivityFilter = {};
+    if (range.days) {
+      filter.from = today.getTime() - (range.days - 1) * DAY_MS;
+    } else if (range.label === "Custom range...") {
+      const input = await vscode.window.showInputBox({
+        prompt: "Date range (inclusive)",
+        placeHolder: "YYYY-MM-DD..YYYY-MM-DD",
+        validateInput: (value) =>
+          parseDateRange(value) ? undefined : "Use YYYY-MM-DD..YYYY-MM-DD",
+      });
+      const parsed = input ? parseDateRange(input) : undefined;
+      if (!parsed) return undefined;
+      filter.from = parsed.from;
+      filter.to = parsed.to;
+    }
+
+    const projects = await this.db.getProjectPaths();
+    const allProjects = "All projects";
+    const project = await vscode.window.showQuickPick<vscode.QuickPickItem>(
+      [
+        { label: allProjects },
+        ...projects.map((p) => ({ label: path.basename(p), description: p })),
+      ],
+      { placeHolder: "Project to export" }
+    );
+    if (!project) return undefined;
+    if (project.label !== allProjects) {
+      filter.projectPath = project.description;
+    }
+
+    return filter;
+  }
+}
+
+/**
+ * Parse "YYYY-MM-DD..YYYY-MM-DD" into a local-time [from, to) range
+ */
+export function parseDateRange(
+  value: string
+): { from: number; to: number } | undefined {
+  const match = value
+    .trim()
+    .match(/^(\d{4}-\d{2}-\d{2})\s*\.\.\s*(\d{4}-\d{2}-\d{2})$/);
+  if (!match) return undefined;
+
+  const from = new Date(`${match[1]}T00:00:00`).getTime();
+  const to = new Date(`${match[2]}T00:00:00`).getTime() + DAY_MS;
+  if (isNaN(from) || isNaN(to) || to <= from) return undefined;
+  return { from, to };
+}
+
+function activitiesToCsv(activities: ActivityLog[]): string {
+  const header = [
+    "id",
+    "timestamp",
+    "project_path",
+    "file_path",
+    "language",
+    "duration_ms",
+    "editor",
+    "commit_hash",
+    "branch",
+    "category",
+    "git_state",
+    "ticket_key",
+    "description",
+    "edited_at",
+  ];
+  const rows = activities.map((a) => [
+    a.id,
+    new Date(a.timestamp).toISOString(),
+    a.projectPath,
+    a.filePath,
+    a.language,
+    a.duration,
+    a.editor,
+    a.commitHash,
+    a.branch,
+    a.category,
+    a.gitState,
+    a.ticketKey,
+    a.description,
+    a.editedAt ? new Date(a.editedAt).toISOString() : undefined,
+  ]);
+  return toCsv(header, rows);
+}
+
+function commitsToCsv(commits: GitCommit[]): string {
+  const header = [
+    "commit_hash",
+    "timestamp",
+    "project_path",
+    "branch",
+    "author",
+    "author_email",
+    "message",
+    "files_changed",
+    "lines_added",
+    "lines_deleted",
+  ];
+  const rows = commits.map((c) => [
+    c.commitHash,
+    new Date(c.timestamp).toISOString(),
+    c.projectPath,
+    c.branch,
+    c.author,
+    c.authorEmail,
+    c.message,
+    c.filesChanged,
+    c.linesAdded,
+    c.linesDeleted,
+  ]);
+  return toCsv(header, rows);
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toNdjson(activities: ActivityLog[], commits: GitCommit[]): string {
+  const lines = [
+    ...activities.map((a) => JSON.stringify({ type: "activity", ...a })),
+    ...commits.map((c) => JSON.stringify({ type: "commit", ...c })),
+  ];
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+function toWakaTime(activities: ActivityLog[], filter: ActivityFilter): string {
+  const days = new Map<string, WakaTimeHeartbeat[]>();
+
+  for (const activity of activities) {
+    const date = localDate(activity.timestamp);
+    if (!days.has(date)) {
+      days.set(date, []);
+    }
+    days.get(date)!.push({
+      entity: activity.filePath || "terminal",
+      type: activity.filePath ? "file" : "app",
+      category: WAKATIME_CATEGORIES[activity.category || "coding"],
+      time: activity.timestamp / 1000,
+      project: activity.projectPath
+        ? path.basename(activity.projectPath)
+        : undefined,
+      branch: activity.branch || undefined,
+      language: activity.language,
+      is_write: false,
+      user_agent: `${activity.editor || "vscode"}/miss-minutes`,
+    });
+  }
+
+  const dates = Array.from(days.keys());
+  return JSON.stringify(
+    {
+      range: {
+        start: filter.from ? filter.from / 1000 : undefined,
+        end: filter.to ? filter.to / 1000 : undefined,
+      },
+      days: dates.map((date) => ({ date, heartbeats: days.get(date) })),
+    },
+    null,
+    2
+  );
+}
+
+function writeFile(target: vscode.Uri, content: string): Thenable<void> {
+  return vscode.workspace.fs.writeFile(target, Buffer.from(content, "utf8"));
+}
+
+// Commits have different columns, so a CSV export puts them in a sibling file
+function commitsCsvUri(target: vscode.Uri): vscode.Uri {
+  return target.with({
+    path: target.path.replace(/(\.csv)?$/, "-commits.csv"),
+  });
+}
+
+async function exists(target: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
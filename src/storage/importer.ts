@@ -0,0 +1,259 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Logger } from "../utils/logger";
+import { TicketMatcher } from "../utils/tickets";
+import {
+  Database,
+  ActivityLog,
+  ActivityCategory,
+  WAKATIME_IMPORT_EDITOR,
+} from "./database";
+import { WakaTimeHeartbeat, WAKATIME_CATEGORIES } from "./exporter";
+
+// Gap after which two heartbeats no longer belong to the same session (WakaTime's default)
+const HEARTBEAT_TIMEOUT = 15 * 60 * 1000;
+// File path of rows made from daily summaries, which have no files
+const SUMMARY_PREFIX = "wakatime-summary:";
+
+interface SummaryEntry {
+  name: string;
+  total_seconds?: number;
+  grand_total?: { total_seconds: number };
+}
+
+// One day of a WakaTime summaries export or data dump
+interface WakaTimeDay {
+  date?: string;
+  range?: { date?: string };
+  heartbeats?: WakaTimeHeartbeat[];
+  grand_total?: { total_seconds: number };
+  projects?: SummaryEntry[];
+  languages?: SummaryEntry[];
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
+/**
+ * Imports history from WakaTime exports (heartbeat dumps and daily summaries)
+ * into activity_logs. Imported rows are tagged with their own editor value and
+ * are picked up by the regular daily-stats sync.
+ */
+export class DataImporter {
+  private logger = Logger.getInstance();
+
+  constructor(private db: Database) {}
+
+  public async promptAndImport(): Promise<ImportResult | undefined> {
+    const files = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: "Import",
+      filters: { "WakaTime export": ["json"] },
+    });
+    if (!files || files.length === 0) return undefined;
+
+    try {
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Miss-Minutes: Importing history...",
+        },
+        () => this.importFile(files[0])
+      );
+      vscode.window.showInformationMessage(
+        `Miss-Minutes: Imported ${result.imported} entries (${result.skipped} already present)`
+      );
+      return result;
+    } catch (err) {
+      this.logger.error("Import failed", err as Error);
+      vscode.window.showErrorMessage(
+        `Miss-Minutes: Import failed: ${(err as Error).message}`
+      );
+      return undefined;
+    }
+  }
+
+  public async importFile(file: vscode.Uri): Promise<ImportResult> {
+    const raw = await vscode.workspace.fs.readFile(file);
+    const data = JSON.parse(Buffer.from(raw).toString("utf8"));
+
+    const projectPaths = await this.db.getProjectPaths();
+    const logs = this.parse(data, projectPaths);
+    if (logs.length === 0) {
+      throw new Error("No WakaTime heartbeats or summaries found in file");
+    }
+
+    // De-duplicate against what is already stored (and within the file).
+    // A row imported before may end up to a heartbeat timeout later.
+    const from = logs.reduce(
+      (min, log) => Math.min(min, log.timestamp - log.duration),
+      Infinity
+    );
+    const to = logs.reduce((max, log) => Math.max(max, log.timestamp), 0);
+    const stored = await this.db.getActivities({
+      from,
+      to: to + HEARTBEAT_TIMEOUT + 1,
+    });
+    const existing = new Set(stored.map(importKey));
+    const fresh = logs.filter((log) => {
+      const key = importKey(log);
+      if (existing.has(key)) return false;
+      existing.add(key);
+      return true;
+    });
+
+    await this.db.insertActivities(fresh);
+    this.logger.info(
+      `Imported ${fresh.length} activities from ${file.fsPath} (${
+        logs.length - fresh.length
+      } duplicates skipped)`
+    );
+    return { imported: fresh.length, skipped: logs.length - fresh.length };
+  }
+
+  private parse(data: any, projectPaths: string[]): ActivityLog[] {
+    const resolveProject = (name?: string) => {
+      if (!name) return "";
+      // Prefer a local project with the same folder name
+      return projectPaths.find((p) => path.basename(p) === name) || name;
+    };
+
+    // Heartbeats: a plain array or { data: [...] } from the API
+    const list = Array.isArray(data) ? data : data?.data;
+    if (Array.isArray(list) && list.length > 0 && isHeartbeat(list[0])) {
+      return heartbeatsToLogs(list, resolveProject);
+    }
+
+    // Data dump or summaries: { days: [...] } or { data: [...] }
+    const days: WakaTimeDay[] = Array.isArray(data?.days)
+      ? data.days
+      : Array.isArray(list)
+      ? list
+      : [];
+
+    const heartbeats = days.flatMap((day) => day.heartbeats || []);
+    if (heartbeats.length > 0) {
+      return heartbeatsToLogs(heartbeats, resolveProject);
+    }
+    return days.flatMap((day) => summaryToLogs(day, resolveProject));
+  }
+}
+
+/**
+ * Identifies an imported entry across exports. The gap credited to a
+ * heartbeat depends on the next heartbeat in the file, so heartbeats are
+ * keyed by their own time; summaries by their (noon) timestamp.
+ */
+function importKey(log: ActivityLog): string {
+  const time = log.filePath.startsWith(SUMMARY_PREFIX)
+    ? log.timestamp
+    : log.timestamp - log.duration;
+  return `${time}|${log.filePath}`;
+}
+
+function isHeartbeat(value: any): value is WakaTimeHeartbeat {
+  return value && typeof value.time === "number" && "entity" in value;
+}
+
+/**
+ * Turn heartbeats into activity rows. The gap until the next heartbeat is
+ * credited to the heartbeat it started at, unless it exceeds the timeout.
+ * Like tracked rows, the timestamp is where the credited time ends.
+ */
+function heartbeatsToLogs(
+  heartbeats: WakaTimeHeartbeat[],
+  resolveProject: (name?: string) => string
+): ActivityLog[] {
+  const sorted = heartbeats.filter(isHeartbeat).sort((a, b) => a.time - b.time);
+
+  return sorted.map((heartbeat, index) => {
+    const start = Math.round(heartbeat.time * 1000);
+    const next = sorted[index + 1];
+    const gap = next ? Math.round(next.time * 1000) - start : 0;
+    const duration = gap > 0 && gap < HEARTBEAT_TIMEOUT ? gap : 0;
+
+    return {
+      projectPath: resolveProject(heartbeat.project),
+      filePath: heartbeat.entity,
+      language: toLanguageId(heartbeat.language),
+      timestamp: start + duration,
+      duration,
+      editor: WAKATIME_IMPORT_EDITOR,
+      branch: heartbeat.branch || undefined,
+      category: toCategory(heartbeat.category),
+      ticketKey: TicketMatcher.getInstance().extract(heartbeat.branch),
+    };
+  });
+}
+
+/**
+ * Turn a daily summary into one row per project and language. Summaries do
+ * not say which language was used in which project, so each project's time
+ * is split by the day's language shares.
+ */
+function summaryToLogs(
+  day: WakaTimeDay,
+  resolveProject: (name?: string) => string
+): ActivityLog[] {
+  const date = day.date || day.range?.date;
+  if (!date) return [];
+
+  // Summaries carry no time of day, noon keeps them on the right local date
+  const timestamp = new Date(`${date}T12:00:00`).getTime();
+  if (isNaN(timestamp)) return [];
+
+  const languages = (day.languages || [])
+    .map((l) => ({ name: l.name, seconds: entrySeconds(l) }))
+    .filter((l) => l.seconds > 0);
+  const languageTotal = languages.reduce((sum, l) => sum + l.seconds, 0);
+
+  const projects = (day.projects || [])
+    .map((p) => ({ name: p.name, seconds: entrySeconds(p) }))
+    .filter((p) => p.seconds > 0);
+  if (projects.length === 0 && day.grand_total?.total_seconds) {
+    projects.push({ name: "", seconds: day.grand_total.total_seconds });
+  }
+
+  const logs: ActivityLog[] = [];
+  for (const project of projects) {
+    const shares =
+      languageTotal > 0
+        ? languages.map((l) => ({
+            name: l.name,
+            seconds: (project.seconds * l.seconds) / languageTotal,
+          }))
+        : [{ name: "unknown", seconds: project.seconds }];
+
+    for (const share of shares) {
+      logs.push({
+        projectPath: resolveProject(project.name),
+        // Summaries have no files; this keeps (timestamp, file) unique per row
+        filePath: `${SUMMARY_PREFIX}${project.name}:${share.name}`,
+        language: toLanguageId(share.name),
+        timestamp,
+        duration: Math.round(share.seconds * 1000),
+        editor: WAKATIME_IMPORT_EDITOR,
+      });
+    }
+  }
+  return logs;
+}
+
+// WakaTime uses display names ("TypeScript"), VS Code lower-case ids
+function toLanguageId(name?: string): string {
+  return name ? name.toLowerCase() : "unknown";
+}
+
+// Categories we have no equivalent for count as coding
+function toCategory(name?: string): ActivityCategory {
+  const match = (Object.keys(WAKATIME_CATEGORIES) as ActivityCategory[]).find(
+    (category) => WAKATIME_CATEGORIES[category] === name
+  );
+  return match || "coding";
+}
+
+function entrySeconds(entry: SummaryEntry): number {
+  return entry.total_seconds ?? entry.grand_total?.total_seconds ?? 0;
+}
@@ -0,0 +1,365 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Logger } from "../utils/logger";
+import { formatDuration } from "../utils/format";
+import { TicketMatcher } from "../utils/tickets";
+import {
+  Database,
+  ActivityCategory,
+  ActivityLog,
+  MANUAL_EDITOR,
+} from "./database";
+import { Tracker } from "../sync/tracker";
+
+// Rows closer together than this belong to the same span
+const SPAN_GAP = 5 * 60 * 1000; // 5 minutes
+
+const CATEGORIES: { label: string; category: ActivityCategory }[] = [
+  { label: "Meeting", category: "meeting" },
+  { label: "Coding", category: "coding" },
+  { label: "Debugging", category: "debugging" },
+  { label: "Testing", category: "testing" },
+  { label: "Reviewing", category: "reviewing" },
+  { label: "Terminal", category: "terminal" },
+];
+
+// Consecutive rows of today with the same attribution
+interface Span {
+  ids: number[];
+  start: number;
+  end: number;
+  duration: number;
+  first: ActivityLog;
+}
+
+/**
+ * Adds time that was never tracked (meetings, whiteboarding, offline work)
+ * and corrects misattributed spans of today. Manual entries are stored as
+ * activity rows from the "manual" editor, corrected rows get `edited_at`,
+ * so both aggregate and sync like tracked time. Spans already uploaded
+ * with their commit cannot be corrected.
+ */
+export class ManualEntries {
+  private logger = Logger.getInstance();
+
+  constructor(private db: Database, private tracker: Tracker) {}
+
+  /**
+   * Ask for project, description, time and ticket, then store the entry
+   */
+  public async promptAndAdd() {
+    const projectPath = await this.pickProject("Project of the entry");
+    if (projectPath === undefined) return;
+
+    const description = await vscode.window.showInputBox({
+      prompt: "What did you work on?",
+      placeHolder: "e.g. Sprint planning",
+      validateInput: (value) =>
+        value.trim() ? undefined : "Please enter a description",
+    });
+    if (!description) return;
+
+    const input = await vscode.window.showInputBox({
+      prompt: "Duration ending now, or start and end time today",
+      placeHolder: "e.g. 45m, 1h 30m or 14:00-15:30",
+      validateInput: (value) =>
+        parseEntryTime(value, Date.now())
+          ? undefined
+          : "Use a duration like 1h 30m or a range like 14:00-15:30",
+    });
+    const time = input ? parseEntryTime(input, Date.now()) : undefined;
+    if (!time) return;
+
+    const category = await vscode.window.showQuickPick(CATEGORIES, {
+      placeHolder: "Kind of work",
+    });
+    if (!category) return;
+
+    const reference = await vscode.window.showInputBox({
+      prompt: "Branch or ticket (optional)",
+      placeHolder: "e.g. PROJ-123 or feature/PROJ-123-login",
+    });
+    if (reference === undefined) return;
+
+    const ticketKey = TicketMatcher.getInstance().extract(reference.trim());
+    const branch =
+      reference.trim() && reference.trim() !== ticketKey
+        ? reference.trim()
+        : undefined;
+
+    try {
+      await this.db.insertActivity({
+        projectPath,
+        filePath: "",
+        language: "unknown",
+        timestamp: time.end,
+        duration: time.end - time.start,
+        editor: MANUAL_EDITOR,
+        branch,
+        category: category.category,
+        ticketKey,
+        description: description.trim(),
+      });
+      await this.tracker.loadTodaySummary();
+      vscode.window.showInformationMessage(
+        `Miss-Minutes: Added ${formatDuration(
+          time.end - time.start
+        )} for "${description.trim()}"`
+      );
+    } catch (err) {
+      this.logger.error("Failed to add manual entry", err as Error);
+      vscode.window.showErrorMessage(
+        `Miss-Minutes: Failed to add entry: ${(err as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Pick a span of today and move it to another project, ticket or
+   * category, or delete it
+   */
+  public async promptAndEdit() {
+    await this.tracker.flushQueue();
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const spans = toSpans(
+      await this.db.getActivities({ from: today.getTime() })
+    ).reverse();
+    if (spans.length === 0) {
+      vscode.window.showInformationMessage(
+        "Miss-Minutes: Nothing tracked today yet"
+      );
+      return;
+    }
+
+    const span = await vscode.window.showQuickPick(
+      spans.map((span) => ({ ...describeSpan(span), span })),
+      { placeHolder: "Span to correct", matchOnDescription: true }
+    );
+    if (!span) return;
+
+    const action = await vscode.window.showQuickPick(
+      [
+        { label: "Move to another project", action: "project" },
+        { label: "Set ticket", action: "ticket" },
+        { label: "Change kind of work", action: "category" },
+        { label: "Change time", action: "time" },
+        { label: "Delete", action: "delete" },
+      ],
+      { placeHolder: describeSpan(span.span).label }
+    );
+    if (!action) return;
+
+    const { ids } = span.span;
+    try {
+      let changed: number;
+      switch (action.action) {
+        case "project": {
+          const projectPath = await this.pickProject("Move to project");
+          if (projectPath === undefined) return;
+          changed = await this.db.updateActivities(ids, { projectPath });
+          break;
+        }
+        case "ticket": {
+          const ticketKey = await vscode.window.showInputBox({
+            prompt: "Ticket key",
+            value: span.span.first.ticketKey || "",
+            validateInput: (value) =>
+              value.trim() ? undefined : "Please enter a ticket key",
+          });
+          if (!ticketKey) return;
+          changed = await this.db.updateActivities(ids, {
+            ticketKey: ticketKey.trim(),
+          });
+          break;
+        }
+        case "category": {
+          const category = await vscode.window.showQuickPick(CATEGORIES, {
+            placeHolder: "Kind of work",
+          });
+          if (!category) return;
+          changed = await this.db.updateActivities(ids, {
+            category: category.category,
+          });
+          break;
+        }
+        case "time": {
+          const input = await vscode.window.showInputBox({
+            prompt:
+              "Duration ending when the span ends, or start and end time today",
+            placeHolder: "e.g. 45m, 1h 30m or 14:00-15:30",
+            value: formatDuration(span.span.duration),
+            validateInput: (value) =>
+              parseEntryTime(value, Date.now(), span.span.end)
+                ? undefined
+                : "Use a duration like 1h 30m or a range like 14:00-15:30",
+          });
+          const time = input
+            ? parseEntryTime(input, Date.now(), span.span.end)
+            : undefined;
+          if (!time) return;
+          // The rows only differ in time, so one row covers the new span
+          const {
+            id: _id,
+            editedAt: _editedAt,
+            ...attribution
+          } = span.span.first;
+          changed = await this.db.replaceActivities(ids, {
+            ...attribution,
+            timestamp: time.end,
+            duration: time.end - time.start,
+          });
+          break;
+        }
+        default: {
+          const confirm = await vscode.window.showWarningMessage(
+            `Delete ${formatDuration(span.span.duration)} tracked ${
+              describeSpan(span.span).label
+            }?`,
+            { modal: true },
+            "Delete"
+          );
+          if (confirm !== "Delete") return;
+          changed = await this.db.deleteLogs(ids);
+        }
+      }
+
+      if (changed === 0) {
+        // The server adds up file activity, so it cannot be taken back
+        vscode.window.showWarningMessage(
+          "Miss-Minutes: This span was already uploaded with its commit and can no longer be changed."
+        );
+        return;
+      }
+      await this.tracker.loadTodaySummary();
+      this.logger.info(`Corrected ${changed} activities (${action.action})`);
+    } catch (err) {
+      this.logger.error("Failed to correct span", err as Error);
+      vscode.window.showErrorMessage(
+        `Miss-Minutes: Failed to correct span: ${(err as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Resolves with the chosen project path ("" for none), or undefined when
+   * cancelled
+   */
+  private async pickProject(placeHolder: string): Promise<string | undefined> {
+    const folders = (vscode.workspace.workspaceFolders || []).map(
+      (folder) => folder.uri.fsPath
+    );
+    const projects = Array.from(
+      new Set([...folders, ...(await this.db.getProjectPaths())])
+    ).filter((project) => project);
+
+    const picked = await vscode.window.showQuickPick(
+      [
+        ...projects.map((p) => ({
+          label: path.basename(p),
+          description: p,
+          projectPath: p,
+        })),
+        { label: "No project", projectPath: "" },
+      ],
+      { placeHolder, matchOnDescription: true }
+    );
+    return picked?.projectPath;
+  }
+}
+
+/**
+ * Parse "1h 30m", "45m", "90" (minutes) as a duration ending at `end`
+ * (default `now`), or "14:00-15:30" as a range today. Ranges may not end in
+ * the future.
+ */
+export function parseEntryTime(
+  value: string,
+  now: number,
+  end: number = now
+): { start: number; end: number } | undefined {
+  const text = value.trim().toLowerCase();
+
+  const range = text.match(/^(\d{1,2}):(\d{2})\s*[-–]\s*(\d{1,2}):(\d{2})$/);
+  if (range) {
+    const at = (hours: string, minutes: string) => {
+      const date = new Date(now);
+      date.setHours(Number(hours), Number(minutes), 0, 0);
+      return date.getTime();
+    };
+    const start = at(range[1], range[2]);
+    const end = at(range[3], range[4]);
+    return start < end && end <= now ? { start, end } : undefined;
+  }
+
+  const duration = text.match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m?)?$/);
+  if (!duration || (!duration[1] && !duration[2])) return undefined;
+  const minutes = Number(duration[1] || 0) * 60 + Number(duration[2] || 0);
+  return minutes > 0 ? { start: end - minutes * 60000, end } : undefined;
+}
+
+function toSpans(activities: ActivityLog[]): Span[] {
+  const spans: Span[] = [];
+
+  for (const activity of activities) {
+    if (activity.id === undefined || activity.duration <= 0) continue;
+
+    const start = activity.timestamp - activity.duration;
+    const last = spans[spans.length - 1];
+    if (
+      last &&
+      sameAttribution(last.first, activity) &&
+      start - last.end <= SPAN_GAP
+    ) {
+      last.ids.push(activity.id);
+      last.end = Math.max(last.end, activity.timestamp);
+      last.duration += activity.duration;
+      continue;
+    }
+
+    spans.push({
+      ids: [activity.id],
+      start,
+      end: activity.timestamp,
+      duration: activity.duration,
+      first: activity,
+    });
+  }
+  return spans;
+}
+
+function sameAttribution(a: ActivityLog, b: ActivityLog): boolean {
+  return (
+    a.projectPath === b.projectPath &&
+    a.filePath === b.filePath &&
+    a.branch === b.branch &&
+    a.category === b.category &&
+    a.ticketKey === b.ticketKey &&
+    a.editor === b.editor &&
+    a.description === b.description
+  );
+}
+
+function describeSpan(span: Span): { label: string; description: string } {
+  const time = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  const { first } = span;
+  const what =
+    first.description ||
+    (first.filePath ? path.basename(first.filePath) : first.category);
+  const details = [
+    first.projectPath ? path.basename(first.projectPath) : "no project",
+    first.ticketKey || first.branch,
+    first.editor === MANUAL_EDITOR ? "manual" : undefined,
+  ].filter(Boolean);
+
+  return {
+    label: `${time(span.start)}–${time(span.end)} (${formatDuration(
+      span.duration
+    )}) ${what}`,
+    description: details.join(" · "),
+  };
+}
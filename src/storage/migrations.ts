@@ -0,0 +1,218 @@
+// Ordered schema migrations for the local database.
+// Each migration runs once, inside its own transaction, and bumps schema_version.
+// Never edit a migration that has shipped; append a new one instead.
+
+export interface MigrationContext {
+  run(sql: string, params?: unknown[]): Promise<void>;
+  all<T>(sql: string, params?: unknown[]): Promise<T[]>;
+  // Adds a column unless it already exists (databases created before versioning)
+  addColumn(table: string, column: string, definition: string): Promise<void>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(ctx: MigrationContext): Promise<void>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create activity_logs and git_commits tables",
+    async up(ctx) {
+      await ctx.run(`
+        CREATE TABLE IF NOT EXISTS activity_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          project_path TEXT,
+          file_path TEXT,
+          language TEXT,
+          timestamp INTEGER,
+          duration INTEGER,
+          editor TEXT,
+          commit_hash TEXT
+        )
+      `);
+      await ctx.run(`
+        CREATE TABLE IF NOT EXISTS git_commits (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          project_path TEXT,
+          commit_hash TEXT UNIQUE,
+          message TEXT,
+          author TEXT,
+          author_email TEXT,
+          timestamp INTEGER,
+          files_changed INTEGER,
+          lines_added INTEGER,
+          lines_deleted INTEGER,
+          branch TEXT
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Add branch column to activity_logs",
+    async up(ctx) {
+      await ctx.addColumn("activity_logs", "branch", "TEXT");
+    },
+  },
+  {
+    version: 3,
+    description: "Add indexes for sync queries",
+    async up(ctx) {
+      await ctx.run(
+        "CREATE INDEX IF NOT EXISTS idx_commit_branch ON activity_logs(commit_hash, branch)"
+      );
+      await ctx.run(
+        "CREATE INDEX IF NOT EXISTS idx_timestamp ON activity_logs(timestamp)"
+      );
+    },
+  },
+  {
+    version: 4,
+    description: "Track sync state per stream instead of deleting synced rows",
+    async up(ctx) {
+      await ctx.addColumn("activity_logs", "daily_synced_at", "INTEGER");
+      await ctx.addColumn("activity_logs", "file_synced_at", "INTEGER");
+      await ctx.addColumn("git_commits", "synced_at", "INTEGER");
+      await ctx.run(
+        "CREATE INDEX IF NOT EXISTS idx_daily_synced ON activity_logs(daily_synced_at)"
+      );
+      await ctx.run(
+        "CREATE INDEX IF NOT EXISTS idx_file_synced ON activity_logs(file_synced_at)"
+      );
+    },
+  },
+  {
+    version: 5,
+    description: "Remember which batch file activities were sent in",
+    async up(ctx) {
+      await ctx.addColumn("activity_logs", "file_batch_id", "TEXT");
+      await ctx.run(
+        "CREATE INDEX IF NOT EXISTS idx_file_batch ON activity_logs(file_batch_id)"
+      );
+    },
+  },
+  {
+    version: 6,
+    description: "Add category column to activity_logs",
+    async up(ctx) {
+      // Everything tracked so far was text editing
+      await ctx.addColumn("activity_logs", "category", "TEXT DEFAULT 'coding'");
+    },
+  },
+  {
+    version: 7,
+    description: "Create commit_files table with per-file diff stats",
+    async up(ctx) {
+      await ctx.run(`
+        CREATE TABLE IF NOT EXISTS commit_files (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          commit_hash TEXT NOT NULL,
+          project_path TEXT,
+          file_path TEXT NOT NULL,
+          old_path TEXT,
+          lines_added INTEGER,
+          lines_deleted INTEGER,
+          binary INTEGER DEFAULT 0,
+          UNIQUE(commit_hash, file_path)
+        )
+      `);
+      await ctx.run(
+        "CREATE INDEX IF NOT EXISTS idx_commit_files_path ON commit_files(file_path)"
+      );
+    },
+  },
+  {
+    version: 8,
+    description: "Record git state and label detached HEAD activity",
+    async up(ctx) {
+      await ctx.addColumn("activity_logs", "git_state", "TEXT");
+      // Rows recorded on a detached HEAD got no branch and never synced
+      await ctx.run(`
+        UPDATE activity_logs SET branch = 'HEAD', git_state = 'detached'
+        WHERE (branch IS NULL OR branch = '') AND commit_hash IS NOT NULL
+          AND commit_hash != '' AND editor = 'vscode'
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "Create focus_sessions table for completed focus blocks",
+    async up(ctx) {
+      await ctx.run(`
+        CREATE TABLE IF NOT EXISTS focus_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at INTEGER NOT NULL,
+          ended_at INTEGER NOT NULL,
+          duration INTEGER NOT NULL,
+          synced_at INTEGER
+        )
+      `);
+      await ctx.run(
+        "CREATE INDEX IF NOT EXISTS idx_focus_started ON focus_sessions(started_at)"
+      );
+    },
+  },
+  {
+    version: 10,
+    description: "Add ticket_key column to activity_logs",
+    async up(ctx) {
+      // Filled in from branch names and commit messages on startup
+      await ctx.addColumn("activity_logs", "ticket_key", "TEXT");
+      await ctx.run(
+        "CREATE INDEX IF NOT EXISTS idx_activity_ticket ON activity_logs(ticket_key)"
+      );
+    },
+  },
+  {
+    version: 11,
+    description: "Add description and edited_at columns to activity_logs",
+    async up(ctx) {
+      await ctx.addColumn("activity_logs", "description", "TEXT");
+      await ctx.addColumn("activity_logs", "edited_at", "INTEGER");
+    },
+  },
+  {
+    version: 12,
+    description:
+      "Move timestamps of imported heartbeats to the end of their time",
+    async up(ctx) {
+      // Imported heartbeats were stored at the start of the credited gap,
+      // tracked rows at its end. Summary rows are pinned to noon.
+      await ctx.run(`
+        UPDATE activity_logs SET timestamp = timestamp + duration
+        WHERE editor = 'wakatime-import' AND duration > 0
+          AND file_path NOT LIKE 'wakatime-summary:%'
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: "Clear ticket keys found by the old default pattern",
+    async up(ctx) {
+      // It matched names such as UTF-8 and SHA-256; keys are found again
+      // with the current patterns on startup. Hand-entered keys stay.
+      await ctx.run(`
+        UPDATE activity_logs SET ticket_key = NULL
+        WHERE ticket_key IS NOT NULL AND editor != 'manual'
+          AND edited_at IS NULL
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: "Create daily_resync table for corrected daily stats",
+    async up(ctx) {
+      // (UTC date, project) groups of daily stats to send again because
+      // synced rows were moved, recategorised or deleted
+      await ctx.run(`
+        CREATE TABLE IF NOT EXISTS daily_resync (
+          date TEXT NOT NULL,
+          project_path TEXT NOT NULL,
+          PRIMARY KEY (date, project_path)
+        )
+      `);
+    },
+  },
+];
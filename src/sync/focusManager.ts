@@ -0,0 +1,153 @@
+import * as vscode from "vscode";
+import { Logger } from "../utils/logger";
+import { formatDuration } from "../utils/format";
+import { Database } from "../storage/database";
+import { StatusBarManager } from "./statusBarManger";
+import { Tracker } from "./tracker";
+
+const TICK_INTERVAL = 1000; // 1 second
+
+/**
+ * Pomodoro mode: counts continuous activity as reported by the tracker,
+ * suggests a break once a focus block is complete and counts the break
+ * down. Completed blocks are stored as focus sessions. An idle gap resets
+ * the running block.
+ */
+export class FocusManager {
+  private logger = Logger.getInstance();
+  private disposables: vscode.Disposable[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private focusDuration = 25 * 60 * 1000; // 25 minutes
+  private breakDuration = 5 * 60 * 1000; // 5 minutes
+  // Activity before this time belongs to the previous block or break
+  private blockFloor = 0;
+  private breakUntil: number | undefined;
+
+  constructor(
+    private db: Database,
+    private tracker: Tracker,
+    private statusBarManager: StatusBarManager
+  ) {}
+
+  public start() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration("miss-minutes.focusReminders") ||
+          e.affectsConfiguration("miss-minutes.focusMinutes") ||
+          e.affectsConfiguration("miss-minutes.breakMinutes")
+        ) {
+          this.loadSettings();
+        }
+      })
+    );
+    this.loadSettings();
+  }
+
+  /**
+   * End the current break early and start counting a new block
+   */
+  public skipBreak() {
+    if (this.breakUntil === undefined) return;
+    this.breakUntil = undefined;
+    this.blockFloor = Date.now();
+    this.tick();
+  }
+
+  private loadSettings() {
+    const config = vscode.workspace.getConfiguration("miss-minutes");
+    this.focusDuration = config.get<number>("focusMinutes", 25) * 60 * 1000;
+    this.breakDuration = config.get<number>("breakMinutes", 5) * 60 * 1000;
+
+    const enabled = config.get<boolean>("focusReminders", false);
+    if (enabled && !this.timer) {
+      this.blockFloor = Date.now();
+      this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+      this.logger.info("Focus reminders enabled");
+    } else if (!enabled && this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      this.breakUntil = undefined;
+      this.statusBarManager.setFocus(undefined);
+      this.logger.info("Focus reminders disabled");
+    }
+  }
+
+  private tick() {
+    const now = Date.now();
+
+    if (this.breakUntil !== undefined) {
+      if (now < this.breakUntil) {
+        this.statusBarManager.setFocus({
+          phase: "break",
+          remaining: this.breakUntil - now,
+        });
+        return;
+      }
+      this.breakUntil = undefined;
+      this.blockFloor = now;
+      vscode.window.showInformationMessage(
+        "Miss-Minutes: Break is over, ready for the next focus block?"
+      );
+    }
+
+    const activeSince = this.tracker.getActiveSince();
+    if (activeSince === undefined) {
+      this.statusBarManager.setFocus(undefined);
+      return;
+    }
+
+    const startedAt = Math.max(activeSince, this.blockFloor);
+    const elapsed = now - startedAt;
+    if (elapsed < this.focusDuration) {
+      this.statusBarManager.setFocus({
+        phase: "focus",
+        remaining: this.focusDuration - elapsed,
+      });
+      return;
+    }
+
+    // With several windows open, only the focused one ends the block
+    if (vscode.window.state.focused) {
+      this.completeBlock(startedAt, now);
+    }
+  }
+
+  private completeBlock(startedAt: number, endedAt: number) {
+    this.breakUntil = endedAt + this.breakDuration;
+    this.statusBarManager.setFocus({
+      phase: "break",
+      remaining: this.breakDuration,
+    });
+
+    this.db
+      .insertFocusSession({ startedAt, endedAt, duration: endedAt - startedAt })
+      .catch((err) =>
+        this.logger.error("Failed to record focus session", err as Error)
+      );
+
+    vscode.window
+      .showInformationMessage(
+        `Miss-Minutes: ${formatDuration(
+          endedAt - startedAt
+        )} of focused work done. Time for a ${formatDuration(
+          this.breakDuration
+        )} break.`,
+        "Skip Break"
+      )
+      .then((selection) => {
+        if (selection === "Skip Break") {
+          this.skipBreak();
+        }
+      });
+  }
+
+  public dispose() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
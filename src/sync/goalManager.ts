@@ -0,0 +1,303 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Logger } from "../utils/logger";
+import { formatDuration, localDate } from "../utils/format";
+import { Database, DailyActivitySummary } from "../storage/database";
+import {
+  GoalProgress,
+  StatusBarManager,
+  TodaySummary,
+} from "./statusBarManger";
+import { Tracker } from "./tracker";
+
+const GOAL_STATE_KEY = "miss-minutes.goalState";
+// How far back a streak is reconstructed for a goal seen for the first time
+const BACKFILL_DAYS = 366;
+
+// A goal as configured in `miss-minutes.goals`
+export interface Goal {
+  period: "daily" | "weekly";
+  minutes: number;
+  project?: string; // Folder name or full path
+  language?: string;
+}
+
+interface GoalRecord {
+  streak: number;
+  best: number;
+  lastMet?: string; // Period key of the last period the goal was met
+  notified?: string; // Period key of the last "goal reached" notification
+}
+
+/**
+ * Tracks progress towards daily and weekly coding goals from the local
+ * database, shows it in the status bar and keeps streaks in globalState.
+ * Days run from local midnight, weeks from Monday.
+ */
+export class GoalManager {
+  private logger = Logger.getInstance();
+  private disposables: vscode.Disposable[] = [];
+  private goals: Goal[] = [];
+  private records: Record<string, GoalRecord> = {};
+  // Days of the current week before today, flushed to the database
+  private earlierThisWeek: DailyActivitySummary[] = [];
+  private today = "";
+  private loading: Promise<void> | undefined;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private db: Database,
+    private tracker: Tracker,
+    private statusBarManager: StatusBarManager
+  ) {}
+
+  public async start() {
+    this.disposables.push(
+      this.tracker.onDidUpdateToday((summary) => this.update(summary)),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("miss-minutes.goals")) {
+          this.reload();
+        }
+      })
+    );
+    await this.reload();
+  }
+
+  private async reload() {
+    this.goals = vscode.workspace
+      .getConfiguration("miss-minutes")
+      .get<Goal[]>("goals", [])
+      .filter((goal) => goal && goal.minutes > 0);
+    this.records = {
+      ...this.context.globalState.get<Record<string, GoalRecord>>(
+        GOAL_STATE_KEY,
+        {}
+      ),
+    };
+    this.today = "";
+    await this.update(this.tracker.getTodaySummary());
+  }
+
+  private async update(summary: TodaySummary) {
+    if (this.goals.length === 0) {
+      this.statusBarManager.setGoals([]);
+      return;
+    }
+
+    // Earlier days only change at rollover; today comes from the tracker
+    const today = localDate(Date.now());
+    if (today !== this.today) {
+      this.today = today;
+      this.loading = this.loadHistory();
+    }
+    await this.loading;
+
+    let changed = false;
+    const progress: GoalProgress[] = [];
+    for (const goal of this.goals) {
+      const key = goalKey(goal);
+      const record = this.records[key] ?? { streak: 0, best: 0 };
+      const period = periodKey(goal, Date.now());
+      const done =
+        amountOfToday(goal, summary) +
+        (goal.period === "weekly" ? sumOf(goal, this.earlierThisWeek) : 0);
+      const target = goal.minutes * 60000;
+
+      if (done >= target && record.lastMet !== period) {
+        record.streak =
+          record.lastMet === previousPeriodKey(goal, period)
+            ? record.streak + 1
+            : 1;
+        record.best = Math.max(record.best, record.streak);
+        record.lastMet = period;
+        changed = true;
+      }
+      if (done >= target && record.notified !== period) {
+        record.notified = period;
+        changed = true;
+        this.notify(goal, record);
+      }
+      this.records[key] = record;
+
+      const current =
+        record.lastMet === period ||
+        record.lastMet === previousPeriodKey(goal, period);
+      progress.push({
+        label: goalLabel(goal),
+        done,
+        target,
+        streak: current ? record.streak : 0,
+        streakUnit: goal.period === "daily" ? "day" : "week",
+      });
+    }
+
+    this.statusBarManager.setGoals(progress);
+    if (changed) {
+      await this.context.globalState.update(GOAL_STATE_KEY, this.records);
+    }
+  }
+
+  /**
+   * Load this week's earlier days, and rebuild the streak of goals seen for
+   * the first time from history
+   */
+  private async loadHistory() {
+    const todayStart = new Date();
+    todayStart.setHours(0, 0, 0, 0);
+    const newGoals = this.goals.filter((goal) => !this.records[goalKey(goal)]);
+    const since = new Date(todayStart);
+    if (newGoals.length > 0) {
+      since.setDate(since.getDate() - BACKFILL_DAYS);
+    } else {
+      since.setDate(since.getDate() - ((since.getDay() + 6) % 7));
+    }
+
+    let days: DailyActivitySummary[] = [];
+    try {
+      days = await this.db.getDailySummaries(
+        since.getTime(),
+        todayStart.getTime()
+      );
+    } catch (err) {
+      this.logger.error("Failed to load goal history", err as Error);
+    }
+
+    const weekStart = periodKey(
+      { period: "weekly", minutes: 0 },
+      todayStart.getTime()
+    );
+    this.earlierThisWeek = days.filter((d) => d.date >= weekStart);
+
+    for (const goal of newGoals) {
+      this.records[goalKey(goal)] = backfillStreak(goal, days);
+    }
+    if (newGoals.length > 0) {
+      await this.context.globalState.update(GOAL_STATE_KEY, this.records);
+    }
+  }
+
+  private notify(goal: Goal, record: GoalRecord) {
+    const unit = goal.period === "daily" ? "day" : "week";
+    const streak =
+      record.streak > 1 ? ` That's a ${record.streak}-${unit} streak!` : "";
+    this.logger.info(`Goal reached: ${goalLabel(goal)}`);
+    vscode.window.showInformationMessage(
+      `Miss-Minutes: ${goalLabel(goal)} goal of ${formatDuration(
+        goal.minutes * 60000
+      )} reached.${streak}`
+    );
+  }
+
+  public dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
+
+/**
+ * Streak of consecutive periods before the current one that met the goal
+ */
+function backfillStreak(goal: Goal, days: DailyActivitySummary[]): GoalRecord {
+  const totals = new Map<string, number>();
+  for (const day of days) {
+    const period = periodKey(goal, new Date(`${day.date}T00:00:00`).getTime());
+    totals.set(period, (totals.get(period) ?? 0) + sumOf(goal, [day]));
+  }
+
+  const target = goal.minutes * 60000;
+  let period = previousPeriodKey(goal, periodKey(goal, Date.now()));
+  let streak = 0;
+  while ((totals.get(period) ?? 0) >= target) {
+    streak++;
+    period = previousPeriodKey(goal, period);
+  }
+
+  let best = 0;
+  let run = 0;
+  let last: string | undefined;
+  for (const key of Array.from(totals.keys()).sort()) {
+    if ((totals.get(key) ?? 0) < target) continue;
+    run = last && previousPeriodKey(goal, key) === last ? run + 1 : 1;
+    best = Math.max(best, run);
+    last = key;
+  }
+
+  return {
+    streak,
+    best,
+    lastMet:
+      streak > 0
+        ? previousPeriodKey(goal, periodKey(goal, Date.now()))
+        : undefined,
+  };
+}
+
+function goalKey(goal: Goal): string {
+  return [goal.period, goal.minutes, goal.project ?? "", goal.language ?? ""]
+    .join(":")
+    .toLowerCase();
+}
+
+function goalLabel(goal: Goal): string {
+  const scope = goal.project || goal.language;
+  const period = goal.period === "daily" ? "Daily" : "Weekly";
+  return scope ? `${period} ${scope}` : period;
+}
+
+/**
+ * The day, or the Monday starting the week, a timestamp falls into
+ */
+function periodKey(goal: Goal, timestamp: number): string {
+  const date = new Date(timestamp);
+  if (goal.period === "weekly") {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  return localDate(date.getTime());
+}
+
+function previousPeriodKey(goal: Goal, period: string): string {
+  const date = new Date(`${period}T00:00:00`);
+  date.setDate(date.getDate() - (goal.period === "weekly" ? 7 : 1));
+  return localDate(date.getTime());
+}
+
+function matchesProject(goal: Goal, projectPath: string): boolean {
+  return (
+    !goal.project ||
+    projectPath === goal.project ||
+    path.basename(projectPath) === goal.project
+  );
+}
+
+function sumLanguages(goal: Goal, breakdown: Record<string, number>): number {
+  return Object.entries(breakdown)
+    .filter(
+      ([language]) =>
+        !goal.language || language.toLowerCase() === goal.language.toLowerCase()
+    )
+    .reduce((sum, [, duration]) => sum + duration, 0);
+}
+
+// A goal is scoped to a project or to a language; the project wins when both
+// are set, since today's summary is not split by both at once
+function sumOf(goal: Goal, days: DailyActivitySummary[]): number {
+  return days
+    .filter((day) => matchesProject(goal, day.projectPath))
+    .reduce(
+      (sum, day) =>
+        sum +
+        (goal.project
+          ? day.totalDuration
+          : sumLanguages(goal, day.languageBreakdown)),
+      0
+    );
+}
+
+function amountOfToday(goal: Goal, summary: TodaySummary): number {
+  if (goal.project) {
+    return Object.entries(summary.byProject)
+      .filter(([project]) => matchesProject(goal, project))
+      .reduce((sum, [, duration]) => sum + duration, 0);
+  }
+  return sumLanguages(goal, summary.byLanguage);
+}
@@ -0,0 +1,148 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { Logger } from "../utils/logger";
+import { StatusBarManager } from "./statusBarManger";
+import { Tracker } from "./tracker";
+
+// Where pauses were kept before they were shared between windows
+const PAUSE_STATE_KEY = "miss-minutes.pauseState";
+// Shared by all windows, next to the database
+const PAUSE_FILE = "pause.json";
+const WATCH_INTERVAL = 2000; // 2 seconds
+
+interface PauseState {
+  paused: boolean;
+  until?: number; // Epoch ms; paused until resumed when missing
+}
+
+/**
+ * Pauses and resumes tracking, optionally for a limited time. The pause is
+ * kept in a file next to the shared database, so it applies to every open
+ * window and survives window reloads.
+ */
+export class PauseManager {
+  private logger = Logger.getInstance();
+  private resumeTimer: NodeJS.Timeout | undefined;
+  private pausePath: string;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private tracker: Tracker,
+    private statusBarManager: StatusBarManager
+  ) {
+    this.pausePath = path.join(context.globalStorageUri.fsPath, PAUSE_FILE);
+  }
+
+  /**
+   * Re-apply a pause that was active before the window reloaded, and follow
+   * pauses and resumes from other windows from now on
+   */
+  public async restore() {
+    const legacy = this.context.globalState.get<PauseState>(PAUSE_STATE_KEY);
+    if (legacy) {
+      if (legacy.paused && !fs.existsSync(this.pausePath)) {
+        this.writeState(legacy);
+      }
+      await this.context.globalState.update(PAUSE_STATE_KEY, undefined);
+    }
+
+    await this.sync();
+    fs.watchFile(this.pausePath, { interval: WATCH_INTERVAL }, () =>
+      this.sync().catch((err) =>
+        this.logger.error("Failed to apply shared pause state", err as Error)
+      )
+    );
+  }
+
+  public async pause(until?: number) {
+    this.writeState({ paused: true, until });
+    await this.apply({ paused: true, until });
+  }
+
+  public async resume() {
+    this.writeState(undefined);
+    await this.apply({ paused: false });
+  }
+
+  /**
+   * Apply the shared state, resuming when a timed pause has run out
+   */
+  private async sync() {
+    const state = this.readState();
+    if (!state || !state.paused) {
+      await this.apply({ paused: false });
+      return;
+    }
+
+    if (state.until && state.until <= Date.now()) {
+      await this.resume();
+      return;
+    }
+    await this.apply(state);
+  }
+
+  private readState(): PauseState | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.pausePath, "utf8"));
+    } catch {
+      // Missing (not paused) or half-written; the next change re-reads it
+      return undefined;
+    }
+  }
+
+  private writeState(state: PauseState | undefined) {
+    if (!state) {
+      fs.rmSync(this.pausePath, { force: true });
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.pausePath), { recursive: true });
+    fs.writeFileSync(this.pausePath, JSON.stringify(state));
+  }
+
+  public isPaused(): boolean {
+    return this.tracker.isTrackingPaused();
+  }
+
+  private async apply(state: PauseState) {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = undefined;
+    }
+
+    this.tracker.setPaused(state.paused);
+    this.statusBarManager.setPaused(state.paused, state.until);
+    await vscode.commands.executeCommand(
+      "setContext",
+      "miss-minutes.paused",
+      state.paused
+    );
+
+    if (state.paused && state.until) {
+      this.logger.info(
+        `Tracking paused until ${new Date(state.until).toISOString()}`
+      );
+      this.resumeTimer = setTimeout(() => {
+        this.resume()
+          .then(() => {
+            // Every window resumes, one notification is enough
+            if (vscode.window.state.focused) {
+              vscode.window.showInformationMessage(
+                "Miss-Minutes: Tracking resumed"
+              );
+            }
+          })
+          .catch((err) =>
+            this.logger.error("Failed to resume tracking", err as Error)
+          );
+      }, state.until - Date.now());
+    }
+  }
+
+  public dispose() {
+    fs.unwatchFile(this.pausePath);
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+    }
+  }
+}
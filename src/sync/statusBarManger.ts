@@ -1,26 +1,226 @@
 import * as vscode from "vscode";
+import * as path from "path";
+import { formatCountdown, formatDuration } from "../utils/format";
+
+export type SyncState = "active" | "synced" | "offline" | "paused" | "noToken";
+
+// Tracked time for the current day, in milliseconds
+export interface TodaySummary {
+  totalDuration: number;
+  byProject: Record<string, number>;
+  byLanguage: Record<string, number>;
+}
+
+// Progress towards one coding goal, durations in milliseconds
+export interface GoalProgress {
+  label: string;
+  done: number;
+  target: number;
+  streak: number; // Consecutive periods the goal was met, up to now
+  streakUnit: "day" | "week";
+}
+
+// Pomodoro countdown: time left in the focus block or the break
+export interface FocusState {
+  phase: "focus" | "break";
+  remaining: number;
+}
+
+const SYNC_STATES: Record<
+  SyncState,
+  { icon: string; tooltip: string; command: string }
+> = {
+  active: {
+    icon: "$(cloud)",
+    tooltip: "Miss-Minutes: Active",
+    command: "miss-minutes.openDashboard",
+  },
+  synced: {
+    icon: "$(check)",
+    tooltip: "Miss-Minutes: Synced",
+    command: "miss-minutes.openDashboard",
+  },
+  offline: {
+    icon: "$(cloud-offline)",
+    tooltip:
+      "Miss-Minutes: Offline, activity is kept locally until the server is reachable",
+    command: "miss-minutes.openDashboard",
+  },
+  paused: {
+    icon: "$(debug-pause)",
+    tooltip: "Miss-Minutes: Paused",
+    command: "miss-minutes.openDashboard",
+  },
+  noToken: {
+    icon: "$(key)",
+    tooltip: "Miss-Minutes: No Token, click to set API Token",
+    command: "miss-minutes.setApiKey",
+  },
+};
 
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
+  private syncItem: vscode.StatusBarItem;
+  private today: TodaySummary | undefined;
+  private goals: GoalProgress[] = [];
+  private focus: FocusState | undefined;
+  // undefined = not paused, null = paused until resumed
+  private pausedUntil: number | null | undefined;
 
   constructor() {
     this.statusBarItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Right,
       100
     );
-    this.statusBarItem.command = "miss-minutes.helloWorld"; // Placeholder, can be changed to open dashboard later
+    this.statusBarItem.command = "miss-minutes.openDashboard";
     this.statusBarItem.text = "$(clock) Miss-Minutes: Initializing...";
     this.statusBarItem.show();
+
+    // Secondary item right next to the counter showing the sync state
+    this.syncItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Right,
+      99
+    );
+    this.setSyncState("active");
+    this.syncItem.show();
+  }
+
+  public setSyncState(state: SyncState, detail?: string) {
+    const config = SYNC_STATES[state];
+    this.syncItem.text = config.icon;
+    this.syncItem.tooltip = detail
+      ? `${config.tooltip}\n${detail}`
+      : config.tooltip;
+    this.syncItem.command = config.command;
+  }
+
+  public updateToday(summary: TodaySummary) {
+    this.today = summary;
+    this.render();
+  }
+
+  /**
+   * Show progress towards the configured goals; the first one is shown next
+   * to the counter
+   */
+  public setGoals(goals: GoalProgress[]) {
+    this.goals = goals;
+    this.render();
   }
 
-  public updateStatus(message: string, tooltip?: string) {
-    this.statusBarItem.text = `$(clock) ${message}`;
-    if (tooltip) {
-      this.statusBarItem.tooltip = tooltip;
+  /**
+   * Show the Pomodoro countdown, or hide it when undefined
+   */
+  public setFocus(focus: FocusState | undefined) {
+    this.focus = focus;
+    this.render();
+  }
+
+  /**
+   * Show that tracking is paused, optionally until a given time
+   */
+  public setPaused(paused: boolean, until?: number) {
+    this.pausedUntil = paused ? until ?? null : undefined;
+    this.render();
+  }
+
+  private render() {
+    const summary = this.today;
+    const paused = this.pausedUntil !== undefined;
+    const icon = paused ? "$(debug-pause)" : "$(clock)";
+    this.statusBarItem.text = `${icon} ${
+      summary ? formatDuration(summary.totalDuration) : "Miss-Minutes"
+    }`;
+    const primary = this.goals[0];
+    if (primary) {
+      const met = primary.done >= primary.target;
+      this.statusBarItem.text += ` ${met ? "$(pass)" : "$(target)"} ${percent(
+        primary
+      )}%`;
+    }
+    if (this.focus) {
+      const focusIcon = this.focus.phase === "focus" ? "$(flame)" : "$(coffee)";
+      this.statusBarItem.text += ` ${focusIcon} ${formatCountdown(
+        this.focus.remaining
+      )}`;
+    }
+
+    const tooltip = new vscode.MarkdownString();
+    if (paused) {
+      tooltip.appendMarkdown(
+        this.pausedUntil
+          ? `$(debug-pause) Tracking paused until ${new Date(
+              this.pausedUntil
+            ).toLocaleString()}\n\n`
+          : "$(debug-pause) Tracking paused\n\n"
+      );
+      tooltip.supportThemeIcons = true;
+    }
+    if (summary) {
+      tooltip.appendMarkdown(
+        `**Today: ${formatDuration(summary.totalDuration)}**\n\n`
+      );
+      appendBreakdown(tooltip, "Projects", summary.byProject, (project) =>
+        project ? path.basename(project) : "(no project)"
+      );
+      appendBreakdown(
+        tooltip,
+        "Languages",
+        summary.byLanguage,
+        (language) => language || "(unknown)"
+      );
     }
+    if (this.goals.length > 0) {
+      tooltip.appendMarkdown("Goals:\n\n");
+      for (const goal of this.goals) {
+        let line = `${goal.label}: ${formatDuration(
+          goal.done
+        )} / ${formatDuration(goal.target)} (${percent(goal)}%)`;
+        if (goal.streak > 0) {
+          line += `, ${goal.streak}-${goal.streakUnit} streak`;
+        }
+        tooltip.appendText(line);
+        tooltip.appendMarkdown("  \n");
+      }
+      tooltip.appendMarkdown("\n");
+    }
+    if (this.focus) {
+      tooltip.appendText(
+        this.focus.phase === "focus"
+          ? `Focus block: ${formatCountdown(this.focus.remaining)} left`
+          : `Break: ${formatCountdown(this.focus.remaining)} left`
+      );
+      tooltip.appendMarkdown("\n\n");
+    }
+    tooltip.appendMarkdown("_Click to open the dashboard_");
+    this.statusBarItem.tooltip = tooltip;
   }
 
   public dispose() {
     this.statusBarItem.dispose();
+    this.syncItem.dispose();
+  }
+}
+
+function appendBreakdown(
+  tooltip: vscode.MarkdownString,
+  title: string,
+  breakdown: Record<string, number>,
+  label: (key: string) => string
+) {
+  const entries = Object.entries(breakdown)
+    .filter(([, duration]) => duration >= 60000)
+    .sort((a, b) => b[1] - a[1]);
+  if (entries.length === 0) return;
+
+  tooltip.appendMarkdown(`${title}:\n\n`);
+  for (const [key, duration] of entries) {
+    tooltip.appendText(`${label(key)}: ${formatDuration(duration)}`);
+    tooltip.appendMarkdown("  \n");
   }
+  tooltip.appendMarkdown("\n");
+}
+
+function percent(goal: GoalProgress): number {
+  return Math.min(100, Math.floor((goal.done / goal.target) * 100));
 }
@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Logger } from "../utils/logger";
+
+const LOCK_FILE = "sync.lock";
+const RENEW_INTERVAL = 60_000; // 1 minute
+// A lock not renewed for this long belongs to a window that crashed or hangs
+const STALE_AFTER = 3 * 60 * 1000; // 3 minutes
+
+/**
+ * Lock file next to the shared database that elects one VS Code window as
+ * sync leader. Every window records its own activity, but only the leader
+ * uploads and prunes. The leader keeps the lock fresh while it is alive;
+ * another window takes over once the lock goes stale.
+ */
+export class SyncLock {
+  private logger = Logger.getInstance();
+  private lockPath: string;
+  private owner = crypto.randomUUID();
+  private renewTimer: NodeJS.Timeout | undefined;
+
+  constructor(storagePath: string) {
+    this.lockPath = path.join(storagePath, LOCK_FILE);
+  }
+
+  /**
+   * Whether this window is the sync leader, taking the lock if it is free
+   * or stale
+   */
+  public tryAcquire(): boolean {
+    if (this.isHeld()) {
+      this.renew();
+      return true;
+    }
+    this.stopRenewing();
+
+    try {
+      const stat = fs.statSync(this.lockPath);
+      if (Date.now() - stat.mtimeMs < STALE_AFTER) {
+        return false;
+      }
+      if (!this.removeStale()) return false;
+      this.logger.info("Took over stale sync lock");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+
+    try {
+      // Exclusive create: only one window wins a free lock
+      fs.writeFileSync(
+        this.lockPath,
+        JSON.stringify({ owner: this.owner, pid: process.pid }),
+        { flag: "wx" }
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "EEXIST") return false;
+      throw err;
+    }
+
+    this.logger.info("This window is now the sync leader");
+    this.renewTimer = setInterval(() => {
+      if (this.isHeld()) {
+        this.renew();
+      } else {
+        this.stopRenewing();
+      }
+    }, RENEW_INTERVAL);
+    return true;
+  }
+
+  /**
+   * Give up leadership so another window can take over right away
+   */
+  public release() {
+    this.stopRenewing();
+    if (this.isHeld()) {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Move a stale lock out of the way. Only one of several windows doing
+   * this at once succeeds; a window that moved a lock another one just
+   * created puts it back. Resolves with whether the lock may be created.
+   */
+  private removeStale(): boolean {
+    const moved = `${this.lockPath}.${this.owner}`;
+    try {
+      fs.renameSync(this.lockPath, moved);
+    } catch (err) {
+      // Another window moved it first
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw err;
+    }
+
+    try {
+      // Renaming keeps the mtime, so a fresh lock is still recognisable
+      if (Date.now() - fs.statSync(moved).mtimeMs >= STALE_AFTER) {
+        return true;
+      }
+      try {
+        // Hard link instead of rename: never replaces a newer lock
+        fs.linkSync(moved, this.lockPath);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      }
+      return false;
+    } finally {
+      fs.rmSync(moved, { force: true });
+    }
+  }
+
+  private isHeld(): boolean {
+    try {
+      const lock = JSON.parse(fs.readFileSync(this.lockPath, "utf8"));
+      return lock.owner === this.owner;
+    } catch {
+      return false;
+    }
+  }
+
+  private renew() {
+    const now = new Date();
+    fs.utimesSync(this.lockPath, now, now);
+  }
+
+  private stopRenewing() {
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = undefined;
+    }
+  }
+}
@@ -1,10 +1,64 @@
 // src/core/tracker.ts
 import * as vscode from "vscode";
+import * as crypto from "crypto";
 import { Logger } from "../utils/logger";
-import { StatusBarManager } from "./statusBarManger";
-import { Database, ActivityLog } from "../storage/database";
+import { StatusBarManager, TodaySummary } from "./statusBarManger";
+import {
+  Database,
+  ActivityLog,
+  ActivityCategory,
+  GitState,
+} from "../storage/database";
 import { ApiClient } from "../api/client";
-import { GitTracker } from "../utils/gitTracker";
+import { SyncError } from "../api/errors";
+import { GitTracker, CommitEvent } from "../utils/gitTracker";
+import { PrivacyFilter } from "../utils/privacy";
+import { TicketMatcher } from "../utils/tickets";
+import { SyncLock } from "./syncLock";
+
+// What the user is working on; time is credited to it until it changes
+interface ActivityContext {
+  projectPath: string;
+  filePath: string;
+  language: string;
+  commitHash?: string;
+  branch?: string;
+  gitState?: GitState;
+  category: ActivityCategory;
+}
+
+// Activity that does not come from a text editor
+interface ActivitySource {
+  category: ActivityCategory;
+  cwd?: string; // Working directory of a terminal command or task
+}
+
+// A shell command or test task that has not ended yet
+interface RunningSource {
+  source: ActivitySource;
+  startedAt: number;
+  terminal?: vscode.Terminal;
+}
+
+// What is being edited: a text document or a notebook
+interface EditorTarget {
+  uri: vscode.Uri;
+  filePath: string;
+  language: string;
+  category: ActivityCategory;
+}
+
+// How long work on the current HEAD waits for its commit before it is
+// synced against the HEAD anyway
+const UNCOMMITTED_HOLD = 24 * 60 * 60 * 1000; // 24 hours
+
+// A running command or task keeps the clock going without editor events
+// for at most this long after it started (dev servers, watchers)
+const MAX_RUNNING_BRIDGE = 30 * 60 * 1000; // 30 minutes
+
+// Shell commands that run a test suite
+const TEST_COMMAND =
+  /(^|[\s;&|])((npm|pnpm|yarn|bun)\s+(run\s+)?test\b|(go|cargo|dotnet|deno|mvn|gradle|\.\/gradlew)\s+test\b|(npx\s+)?(jest|vitest|mocha|pytest|rspec|phpunit|ctest)\b)/;
 
 export class Tracker {
   private logger: Logger;
@@ -12,26 +66,69 @@ export class Tracker {
   private db: Database;
   private apiClient: ApiClient;
   private gitTracker: GitTracker | undefined;
+  private syncLock: SyncLock | undefined;
+  private privacy = PrivacyFilter.getInstance();
+  private tickets = TicketMatcher.getInstance();
   private disposable: vscode.Disposable | undefined;
   private isTracking = false;
+  private isPaused = false;
   private queue: ActivityLog[] = [];
   private syncTimer: NodeJS.Timeout | undefined;
+  private isSyncing = false;
+  private syncRequested = false;
+  private isFocused = vscode.window.state.focused;
+  // Context of the running session, the time credited to it so far
+  // (last recorded row) and the time of the last editor event
+  private current: ActivityContext | undefined;
   private lastActivityTime = 0;
+  private lastEventTime = 0;
+  // Start of the current stretch of activity without an idle gap, across
+  // context switches; 0 while idle
+  private activeSince = 0;
+  private lastActiveTime = 0;
+  // Shell commands and test tasks still running; the clock does not go idle
+  // meanwhile, up to MAX_RUNNING_BRIDGE
+  private running = new Map<object, RunningSource>();
+  // Read from the miss-minutes.idleTimeout, debounceInterval and gracePeriod settings
   private debounceInterval = 2000; // 2 seconds
   private maxIdleTime = 5 * 60 * 1000; // 5 minutes
+  private gracePeriod = 30_000; // 30 seconds
   private syncInterval = 60_000; // 60 seconds
+  private maxSyncBackoff = 30 * 60 * 1000; // 30 minutes
+  private consecutiveSyncFailures = 0;
+  // Set when the server rejected the token; uploads wait for a new one
+  private authBlocked = false;
+  private authPrompted = false;
+  // Set when the server lacks the focus session mutation; focus sessions
+  // stay local until the server changes
+  private focusSyncUnsupported = false;
+  // Time already flushed to the DB today; the queue is added on top of it
+  private flushedToday: TodaySummary = emptySummary();
+  private todayStart = 0;
+  private todayEmitter = new vscode.EventEmitter<TodaySummary>();
+
+  // Fires whenever today's tracked time changes, including at day rollover
+  public readonly onDidUpdateToday = this.todayEmitter.event;
+
+  private attributedEmitter = new vscode.EventEmitter<CommitEvent>();
+
+  // Fires once the work that went into a new commit is credited to it
+  public readonly onDidAttributeCommit = this.attributedEmitter.event;
 
   constructor(
     statusBarManager: StatusBarManager,
     db: Database,
     apiClient: ApiClient,
-    gitTracker?: GitTracker
+    gitTracker?: GitTracker,
+    syncLock?: SyncLock
   ) {
     this.logger = Logger.getInstance();
     this.statusBarManager = statusBarManager;
     this.db = db;
     this.apiClient = apiClient;
     this.gitTracker = gitTracker;
+    this.syncLock = syncLock;
+    this.loadSettings();
   }
 
   public startTracking() {
@@ -39,7 +136,7 @@ export class Tracker {
 
     this.isTracking = true;
     this.logger.info("Tracking started");
-    this.statusBarManager.updateStatus("Miss-Minutes: Active");
+    this.loadTodaySummary();
 
     const subscriptions: vscode.Disposable[] = [];
 
@@ -48,6 +145,11 @@ export class Tracker {
       this,
       subscriptions
     );
+    vscode.window.onDidChangeActiveTextEditor(
+      this.onActiveEditorChange,
+      this,
+      subscriptions
+    );
     vscode.window.onDidChangeTextEditorSelection(
       this.onSelectionChange,
       this,
@@ -58,6 +160,80 @@ export class Tracker {
       this,
       subscriptions
     );
+    vscode.window.onDidChangeActiveNotebookEditor(
+      this.onActiveNotebookEditorChange,
+      this,
+      subscriptions
+    );
+    vscode.window.onDidChangeNotebookEditorSelection(
+      this.onNotebookSelectionChange,
+      this,
+      subscriptions
+    );
+    vscode.workspace.onDidChangeNotebookDocument(
+      this.onNotebookChange,
+      this,
+      subscriptions
+    );
+    vscode.workspace.onDidSaveNotebookDocument(
+      this.onNotebookSave,
+      this,
+      subscriptions
+    );
+    vscode.window.onDidStartTerminalShellExecution(
+      this.onShellExecutionStart,
+      this,
+      subscriptions
+    );
+    vscode.window.onDidEndTerminalShellExecution(
+      this.onShellExecutionEnd,
+      this,
+      subscriptions
+    );
+    vscode.tasks.onDidStartTaskProcess(this.onTaskStart, this, subscriptions);
+    vscode.tasks.onDidEndTaskProcess(this.onTaskEnd, this, subscriptions);
+    // End events may never arrive for these
+    vscode.window.onDidCloseTerminal(this.onTerminalClose, this, subscriptions);
+    vscode.tasks.onDidEndTask(
+      (event) => this.running.delete(event.execution),
+      this,
+      subscriptions
+    );
+    vscode.debug.onDidStartDebugSession(
+      this.onDebugActivity,
+      this,
+      subscriptions
+    );
+    vscode.debug.onDidChangeActiveStackItem(
+      this.onDebugActivity,
+      this,
+      subscriptions
+    );
+    vscode.debug.onDidTerminateDebugSession(
+      this.onDebugActivity,
+      this,
+      subscriptions
+    );
+    vscode.window.onDidChangeWindowState(
+      this.onWindowStateChange,
+      this,
+      subscriptions
+    );
+    vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (e.affectsConfiguration("miss-minutes")) {
+          this.loadSettings();
+        }
+      },
+      this,
+      subscriptions
+    );
+
+    if (this.gitTracker) {
+      this.gitTracker.onDidCommit(this.onCommit, this, subscriptions);
+    }
+    this.tickets.onDidChangePatterns(this.reassignTickets, this, subscriptions);
+    this.assignTickets();
 
     this.disposable = vscode.Disposable.from(...subscriptions);
 
@@ -69,8 +245,10 @@ export class Tracker {
     if (!this.isTracking) return;
 
     this.isTracking = false;
+    // Credit the open session; flushQueue() writes it
+    this.endSession(Date.now());
     this.logger.info("Tracking stopped");
-    this.statusBarManager.updateStatus("Miss-Minutes: Paused");
+    this.statusBarManager.setSyncState("paused");
 
     if (this.disposable) {
       this.disposable.dispose();
@@ -78,12 +256,177 @@ export class Tracker {
     if (this.syncTimer) {
       clearTimeout(this.syncTimer);
     }
+    this.running.clear();
+    this.syncLock?.release();
+  }
+
+  /**
+   * Run the sync loop right away, e.g. after the API client was retargeted
+   * to another server profile. The regular interval continues afterwards.
+   */
+  public restartSync() {
+    if (!this.isTracking) return;
+
+    // Something changed (token, profile, new data): retry right away
+    this.authBlocked = false;
+    this.focusSyncUnsupported = false;
+    this.consecutiveSyncFailures = 0;
+
+    if (this.isSyncing) {
+      // Picked up as soon as the running pass finishes
+      this.syncRequested = true;
+      return;
+    }
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+    this.syncLoop();
+  }
+
+  /**
+   * Pause or resume recording activity. Syncing keeps running while paused
+   * so already tracked time still reaches the server.
+   */
+  public setPaused(paused: boolean) {
+    if (this.isPaused === paused) return;
+
+    if (paused) {
+      this.endSession(Date.now());
+      this.activeSince = 0;
+    }
+    this.isPaused = paused;
+    this.logger.info(paused ? "Tracking paused" : "Tracking resumed");
+  }
+
+  public isTrackingPaused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * When the current stretch of continuous activity started, or undefined
+   * when idle or paused. Running commands, tasks and debug sessions keep a
+   * stretch alive without editor events.
+   */
+  public getActiveSince(): number | undefined {
+    if (this.isPaused || this.activeSince === 0) return undefined;
+    const now = Date.now();
+    if (
+      now - Math.max(this.lastActiveTime, this.runningUntil(now)) >=
+      this.maxIdleTime
+    ) {
+      return undefined;
+    }
+    return this.activeSince;
+  }
+
+  /**
+   * Write queued activities to the local database
+   */
+  public async flushQueue() {
+    if (this.queue.length === 0) return;
+
+    const logsToSave = [...this.queue];
+    this.queue = [];
+
+    for (const log of logsToSave) {
+      // Counted before the insert so the live total never dips in between
+      if (log.timestamp >= this.todayStart) {
+        addToSummary(
+          this.flushedToday,
+          log.projectPath,
+          log.language,
+          log.duration
+        );
+      }
+      try {
+        await this.db.insertActivity(log);
+      } catch (err) {
+        this.logger.error("Failed to save activity to DB", err as Error);
+      }
+    }
+  }
+
+  /**
+   * Today's tracked time: rows already in the DB plus the in-memory queue
+   */
+  public getTodaySummary(): TodaySummary {
+    const summary: TodaySummary = {
+      totalDuration: this.flushedToday.totalDuration,
+      byProject: { ...this.flushedToday.byProject },
+      byLanguage: { ...this.flushedToday.byLanguage },
+    };
+    for (const log of this.queue) {
+      if (log.timestamp >= this.todayStart) {
+        addToSummary(summary, log.projectPath, log.language, log.duration);
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Re-read today's tracked time, e.g. after rows were added or corrected
+   */
+  public async loadTodaySummary() {
+    this.todayStart = startOfToday();
+
+    try {
+      const rows = await this.db.getActivityBreakdown(this.todayStart);
+      this.flushedToday = emptySummary();
+      rows.forEach((row) =>
+        addToSummary(
+          this.flushedToday,
+          row.projectPath,
+          row.language,
+          row.totalDuration
+        )
+      );
+    } catch (err) {
+      this.logger.error("Failed to load today's activity", err as Error);
+    }
+    this.publishToday();
+  }
+
+  private updateTodayStatus() {
+    // Day rolled over: start counting from zero again
+    if (startOfToday() !== this.todayStart) {
+      this.loadTodaySummary();
+      return;
+    }
+    this.publishToday();
+  }
+
+  private publishToday() {
+    const summary = this.getTodaySummary();
+    this.statusBarManager.updateToday(summary);
+    this.todayEmitter.fire(summary);
+  }
+
+  private loadSettings() {
+    const config = vscode.workspace.getConfiguration("miss-minutes");
+    this.maxIdleTime = config.get<number>("idleTimeout", 300) * 1000;
+    this.debounceInterval = config.get<number>("debounceInterval", 2000);
+    this.gracePeriod = config.get<number>("gracePeriod", 30) * 1000;
+  }
+
+  private onWindowStateChange(state: vscode.WindowState) {
+    if (this.isFocused === state.focused) return;
+
+    this.isFocused = state.focused;
+    if (!state.focused) {
+      // Time in other applications is not coding time
+      this.endSession(Date.now());
+    }
   }
 
   private onDocumentChange(_event: vscode.TextDocumentChangeEvent) {
     this.handleActivity();
   }
 
+  private onActiveEditorChange(_editor: vscode.TextEditor | undefined) {
+    this.handleActivity();
+  }
+
   private onSelectionChange(_event: vscode.TextEditorSelectionChangeEvent) {
     this.handleActivity();
   }
@@ -92,155 +435,721 @@ export class Tracker {
     this.handleActivity();
   }
 
-  private handleActivity() {
+  private onActiveNotebookEditorChange(
+    _editor: vscode.NotebookEditor | undefined
+  ) {
+    this.handleActivity();
+  }
+
+  private onNotebookSelectionChange(
+    _event: vscode.NotebookEditorSelectionChangeEvent
+  ) {
+    this.handleActivity();
+  }
+
+  private onNotebookChange(event: vscode.NotebookDocumentChangeEvent) {
+    // A finished execution means the user was busy since it started,
+    // even if nothing else happened while the cell ran
+    const executionStarts = event.cellChanges
+      .map((change) => change.executionSummary?.timing?.startTime)
+      .filter((start): start is number => start !== undefined);
+
+    this.handleActivity(
+      undefined,
+      executionStarts.length > 0 ? Math.min(...executionStarts) : undefined
+    );
+  }
+
+  private onNotebookSave(_notebook: vscode.NotebookDocument) {
+    this.handleActivity();
+  }
+
+  private onShellExecutionStart(
+    event: vscode.TerminalShellExecutionStartEvent
+  ) {
+    const source: ActivitySource = {
+      category: TEST_COMMAND.test(event.execution.commandLine.value)
+        ? "testing"
+        : "terminal",
+      cwd: event.execution.cwd?.fsPath,
+    };
+    this.handleActivity(source);
+    this.running.set(event.execution, {
+      source,
+      startedAt: Date.now(),
+      terminal: event.terminal,
+    });
+  }
+
+  private onShellExecutionEnd(event: vscode.TerminalShellExecutionEndEvent) {
+    const running = this.running.get(event.execution);
+    if (!running) return;
+
+    this.handleActivity(running.source);
+    this.running.delete(event.execution);
+  }
+
+  private onTerminalClose(terminal: vscode.Terminal) {
+    for (const [execution, running] of this.running) {
+      if (running.terminal === terminal) {
+        this.running.delete(execution);
+      }
+    }
+  }
+
+  private onTaskStart(event: vscode.TaskProcessStartEvent) {
+    const task = event.execution.task;
+    if (task.group?.id !== vscode.TaskGroup.Test.id) return;
+
+    const source: ActivitySource = {
+      category: "testing",
+      cwd: isWorkspaceFolder(task.scope) ? task.scope.uri.fsPath : undefined,
+    };
+    this.handleActivity(source);
+    this.running.set(event.execution, { source, startedAt: Date.now() });
+  }
+
+  private onTaskEnd(event: vscode.TaskProcessEndEvent) {
+    const running = this.running.get(event.execution);
+    if (!running) return;
+
+    this.handleActivity(running.source);
+    this.running.delete(event.execution);
+  }
+
+  /**
+   * Work recorded against the previous HEAD went into the new commit:
+   * re-attribute it, for the files the commit touched
+   */
+  private async onCommit(event: CommitEvent) {
     const now = Date.now();
-    const timeDiff = now - this.lastActivityTime;
 
-    // Debounce very rapid events
-    if (timeDiff < this.debounceInterval) {
+    // Close the running interval so its time is re-attributed too; later
+    // time belongs to the new HEAD
+    if (
+      this.current &&
+      this.current.projectPath === event.projectPath &&
+      this.current.commitHash === event.previousCommit
+    ) {
+      this.recordActivity(this.current, now, now - this.lastActivityTime);
+      this.lastActivityTime = now;
+      this.current = { ...this.current, commitHash: event.commitHash };
+    }
+
+    try {
+      await this.flushQueue();
+      const moved = await this.db.reattributeActivities(
+        event.projectPath,
+        event.previousCommit,
+        event.commitHash,
+        event.branch,
+        event.files,
+        // Rows without a ticket in their branch take the commit message's
+        this.tickets.extract(event.message)
+      );
+      this.logger.info(
+        `Attributed ${moved} activities to commit ${event.commitHash.substring(
+          0,
+          7
+        )}`
+      );
+    } catch (err) {
+      this.logger.error("Failed to attribute activity to commit", err as Error);
+    }
+    this.attributedEmitter.fire(event);
+  }
+
+  /**
+   * Keys found by the previous patterns may be wrong now: find them again
+   */
+  private async reassignTickets() {
+    try {
+      await this.flushQueue();
+      await this.db.clearDerivedTicketKeys();
+    } catch (err) {
+      this.logger.error("Failed to clear ticket keys", err as Error);
+      return;
+    }
+    await this.assignTickets();
+  }
+
+  /**
+   * Give rows recorded before a ticket pattern matched their branch or
+   * commit message their ticket key
+   */
+  private async assignTickets() {
+    try {
+      const { branches, commits } = await this.db.getUnticketedSources();
+      for (const branch of branches) {
+        const ticketKey = this.tickets.extract(branch);
+        if (ticketKey) {
+          await this.db.assignTicketKey(ticketKey, { branch });
+        }
+      }
+      // Branch tickets take precedence, so commits go second
+      for (const { commitHash, message } of commits) {
+        const ticketKey = this.tickets.extract(message);
+        if (ticketKey) {
+          await this.db.assignTicketKey(ticketKey, { commitHash });
+        }
+      }
+    } catch (err) {
+      this.logger.error("Failed to assign ticket keys", err as Error);
+    }
+  }
+
+  private onDebugActivity() {
+    // Stepping moves the editor, so the debugged file is the active one
+    this.handleActivity();
+  }
+
+  /**
+   * Heartbeat: time since the last recorded row belongs to the context that
+   * was active during it, so the interval is closed whenever the context
+   * (file, language, project, commit, branch or category) changes.
+   */
+  private handleActivity(source?: ActivitySource, busySince?: number) {
+    if (this.isPaused || !this.isFocused) return;
+
+    const now = Date.now();
+    // Running commands and tasks count as activity up to now (within limits)
+    const runningUntil = this.runningUntil(now);
+    // Work that started no later than an idle timeout after the last event
+    // (e.g. a notebook cell execution) kept the user busy until now, capped
+    // like running commands
+    const busyUntil =
+      busySince !== undefined &&
+      busySince - this.lastEventTime < this.maxIdleTime
+        ? Math.min(now, busySince + MAX_RUNNING_BRIDGE)
+        : 0;
+    const lastSeen = Math.max(this.lastEventTime, busyUntil, runningUntil);
+
+    // Idle for too long: close the previous session
+    if (this.lastEventTime !== 0 && now - lastSeen >= this.maxIdleTime) {
+      this.endSession(now, lastSeen);
+    }
+
+    if (
+      this.activeSince === 0 ||
+      now - Math.max(this.lastActiveTime, busyUntil, runningUntil) >=
+        this.maxIdleTime
+    ) {
+      this.activeSince = now;
+    }
+    this.lastActiveTime = now;
+
+    const context = source
+      ? this.resolveSourceContext(source)
+      : this.resolveContext();
+
+    if (this.current && !sameContext(this.current, context)) {
+      // Switched away: the previous context was active up to now
+      this.recordActivity(this.current, now, now - this.lastActivityTime);
+      this.resetSession();
+    }
+
+    if (!context) return;
+
+    if (!this.current) {
+      this.current = context;
+      this.lastActivityTime = now;
+      this.lastEventTime = now;
       return;
     }
 
-    let duration = 0;
-    // Only count duration if within max idle time and not the first event
-    if (this.lastActivityTime !== 0 && timeDiff < this.maxIdleTime) {
-      duration = timeDiff;
+    // Rapid events only extend the session; their time lands in the next row
+    this.lastEventTime = now;
+    if (now - this.lastActivityTime < this.debounceInterval) {
+      return;
     }
 
+    this.recordActivity(this.current, now, now - this.lastActivityTime);
     this.lastActivityTime = now;
+  }
+
+  /**
+   * Close the running session: time since the last recorded row is credited,
+   * up to the last sign of activity plus the grace period. Nothing counts
+   * until the next editor event.
+   */
+  private endSession(now: number, lastSeen = this.lastEventTime) {
+    if (!this.current) return;
 
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) return;
+    const end = Math.min(now, lastSeen + this.gracePeriod);
+    if (!this.isPaused) {
+      this.recordActivity(this.current, end, end - this.lastActivityTime);
+    }
+    this.resetSession();
+  }
 
-    const doc = editor.document;
-    const filePath = doc.fileName;
+  /**
+   * Until when running commands and tasks account for activity: now while
+   * one runs, but no longer than MAX_RUNNING_BRIDGE after it started
+   */
+  private runningUntil(now: number): number {
+    let until = 0;
+    for (const { startedAt } of this.running.values()) {
+      until = Math.max(until, Math.min(now, startedAt + MAX_RUNNING_BRIDGE));
+    }
+    return until;
+  }
+
+  private resetSession() {
+    this.current = undefined;
+    this.lastActivityTime = 0;
+    this.lastEventTime = 0;
+  }
+
+  /**
+   * What the active editor is working on, or undefined when nothing should
+   * be tracked (no editor, excluded file)
+   */
+  private resolveContext(): ActivityContext | undefined {
+    const target = activeEditorTarget();
+    if (!target) return undefined;
+
+    const { filePath, language } = target;
     let projectPath = "";
 
-    const language = doc.languageId;
     const gitRoot = this.gitTracker?.getGitRootForPath(filePath);
     if (gitRoot) {
       projectPath = gitRoot; // ✅ TRUE PROJECT PATH
     } else {
       // fallback: workspace root
       projectPath =
-        vscode.workspace.getWorkspaceFolder(doc.uri)?.uri.fsPath || "";
+        vscode.workspace.getWorkspaceFolder(target.uri)?.uri.fsPath || "";
+    }
+
+    if (!this.privacy.shouldTrack(filePath, projectPath)) {
+      this.logger.debug(`Skipping excluded file: ${filePath}`);
+      return undefined;
     }
+
     // Ask GitTracker for commit and branch based on real file path
     const commitHash =
       this.gitTracker?.getActiveCommitForPath(filePath) ?? undefined;
     const branch =
       this.gitTracker?.getActiveBranchForPath(filePath) ?? undefined;
+    const gitState =
+      this.gitTracker?.getActiveStateForPath(filePath) ?? undefined;
 
-    this.logger.debug(
-      `Tracking activity: ${filePath} | ${language} | ${duration}ms | commit: ${commitHash} | branch: ${branch}`
-    );
     if (!commitHash && projectPath) {
       this.logger.debug(
         `No active commit found for file: ${filePath} (project: ${projectPath})`
       );
     }
 
-    const log: ActivityLog = {
+    return {
       projectPath,
       filePath,
       language,
-      timestamp: now,
-      duration,
-      editor: "vscode",
       commitHash,
       branch,
+      gitState,
+      category: target.category,
+    };
+  }
+
+  /**
+   * Context of a terminal command or task: its project, no file
+   */
+  private resolveSourceContext(
+    source: ActivitySource
+  ): ActivityContext | undefined {
+    const folder =
+      source.cwd || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!folder) return undefined;
+
+    const projectPath =
+      this.gitTracker?.getGitRootForPath(folder) ||
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(folder))?.uri
+        .fsPath ||
+      folder;
+
+    return {
+      projectPath,
+      filePath: "",
+      // Commands are typed into a shell, whatever they run
+      language: "shellscript",
+      commitHash:
+        this.gitTracker?.getActiveCommitForPath(projectPath) ?? undefined,
+      branch: this.gitTracker?.getActiveBranchForPath(projectPath) ?? undefined,
+      gitState:
+        this.gitTracker?.getActiveStateForPath(projectPath) ?? undefined,
+      category: source.category,
+    };
+  }
+
+  /**
+   * Queue a row crediting `duration` ms, ending at `timestamp`, to a context
+   */
+  private recordActivity(
+    context: ActivityContext,
+    timestamp: number,
+    duration: number
+  ) {
+    if (duration <= 0) return;
+
+    this.logger.debug(
+      `Tracking activity: ${context.filePath} | ${context.language} | ${duration}ms | commit: ${context.commitHash} | branch: ${context.branch}`
+    );
+
+    const log: ActivityLog = {
+      ...context,
+      timestamp,
+      duration,
+      editor: "vscode",
+      ticketKey: this.tickets.extract(context.branch),
     };
 
     this.queue.push(log);
-    this.statusBarManager.updateStatus("Miss-Minutes: Tracking...");
+    this.updateTodayStatus();
   }
 
   private async syncLoop() {
     if (!this.isTracking) return;
+    this.isSyncing = true;
 
     // Flush queue to DB
-    if (this.queue.length > 0) {
-      const logsToSave = [...this.queue];
-      this.queue = [];
-
-      for (const log of logsToSave) {
-        try {
-          await this.db.insertActivity(log);
-        } catch (err) {
-          this.logger.error("Failed to save activity to DB", err as Error);
-        }
-      }
-    }
+    await this.flushQueue();
+    // Re-read today's total so time recorded by other windows shows up too
+    await this.loadTodaySummary();
 
-    // Sync DB to API
+    // Sync DB to API, each stream keeps its own sync state in the DB
     try {
-      // 1. Sync daily aggregated stats (for completed days)
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split("T")[0];
-
-      const dailyStats = await this.db.getDailyAggregatedActivities(30);
-      const completedDayStats = dailyStats.filter(
-        (stat) => stat.date < yesterdayStr
+      // With several windows open, only the sync leader uploads and prunes
+      if (this.syncLock && !this.syncLock.tryAcquire()) {
+        this.logger.debug("Another window is syncing, skipping upload");
+        this.scheduleSync();
+        return;
+      }
+
+      // Projects flagged as local-only never leave this machine
+      const localOnlyProjects = (await this.db.getProjectPaths()).filter(
+        (projectPath) => this.privacy.isLocalOnly(projectPath)
       );
+      // Rows written while this pass runs are left for the next one
+      const upToId = await this.db.getMaxActivityId();
 
-      if (completedDayStats.length > 0) {
-        this.logger.debug(
-          `Syncing ${completedDayStats.length} daily stats summaries`
-        );
-        const success = await this.apiClient.syncDailyStats(completedDayStats);
-        if (success) {
-          // Delete old activities (keep last 7 days for safety)
-          const deleteBeforeDate = new Date();
-          deleteBeforeDate.setDate(deleteBeforeDate.getDate() - 7);
-          await this.db.deleteActivitiesBeforeDate(
-            deleteBeforeDate.toISOString().split("T")[0]
-          );
-          this.logger.info(
-            `Synced and cleaned up ${completedDayStats.length} daily stats`
-          );
-        }
+      if (!this.authBlocked && this.apiClient.hasToken()) {
+        await this.syncDailyStats(upToId, localOnlyProjects);
+        await this.syncFileActivities(upToId, localOnlyProjects);
+        await this.syncCommits(localOnlyProjects);
+        await this.syncFocusSessions();
+
+        this.consecutiveSyncFailures = 0;
+        this.authPrompted = false;
+        this.statusBarManager.setSyncState("synced");
+      }
+
+      await this.pruneHistory(localOnlyProjects);
+    } catch (err) {
+      if (err instanceof SyncError) {
+        this.handleSyncError(err);
+      } else {
+        this.logger.error("Sync loop error", err as Error);
       }
+    }
+
+    this.scheduleSync();
+  }
+
+  private scheduleSync() {
+    this.isSyncing = false;
+    if (!this.isTracking) return;
 
-      // 2. Sync file-level aggregated activities (for commits)
-      const aggregatedActivities = await this.db.getAggregatedActivities(50);
-      if (aggregatedActivities.length > 0) {
-        this.logger.debug(
-          `Syncing ${aggregatedActivities.length} aggregated file activities`
+    const delay = this.syncRequested ? 0 : this.nextSyncDelay();
+    this.syncRequested = false;
+    this.syncTimer = setTimeout(() => this.syncLoop(), delay);
+  }
+
+  /**
+   * 1. Daily aggregated stats, for completed days
+   */
+  private async syncDailyStats(
+    upToId: number,
+    localOnlyProjects: string[]
+  ): Promise<void> {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const yesterdayStr = yesterday.toISOString().split("T")[0];
+
+    const dailyStats = await this.db.getDailyAggregatedActivities(
+      yesterdayStr,
+      upToId,
+      30,
+      localOnlyProjects
+    );
+    if (dailyStats.length === 0) return;
+
+    this.logger.debug(`Syncing ${dailyStats.length} daily stats summaries`);
+    await this.apiClient.syncDailyStats(dailyStats);
+    await this.db.markDailyActivitiesSynced(dailyStats, upToId);
+    this.logger.info(`Synced ${dailyStats.length} daily stats`);
+  }
+
+  /**
+   * 2. File-level aggregated activities, per commit. The server adds these
+   * durations up, so rows are sent in persisted batches: a batch that failed
+   * is retried with exactly the same rows and idempotency key.
+   */
+  private async syncFileActivities(
+    upToId: number,
+    localOnlyProjects: string[]
+  ): Promise<void> {
+    let batchId = await this.db.getPendingFileBatch();
+    if (batchId) {
+      // Projects may have been marked local-only since the batch was formed
+      const released = await this.db.releaseFromFileBatch(
+        batchId,
+        localOnlyProjects
+      );
+      if (released > 0) {
+        this.logger.info(
+          `Kept ${released} local-only activities out of batch ${batchId}`
         );
-        const success = await this.apiClient.syncFileActivities(
-          aggregatedActivities
+      }
+    }
+    if (!batchId) {
+      batchId = crypto.randomUUID();
+      const rows = await this.db.assignFileBatch(
+        batchId,
+        upToId,
+        500,
+        localOnlyProjects,
+        this.gitTracker?.getActiveCommits(),
+        Date.now() - UNCOMMITTED_HOLD
+      );
+      if (rows === 0) return;
+    }
+
+    const aggregatedActivities = await this.db.getAggregatedActivities(batchId);
+    if (aggregatedActivities.length === 0) return;
+    this.logger.debug(
+      `Syncing ${aggregatedActivities.length} aggregated file activities (batch ${batchId})`
+    );
+    await this.apiClient.syncFileActivities(aggregatedActivities, batchId);
+    await this.db.markFileBatchSynced(batchId);
+    this.logger.info(`Synced ${aggregatedActivities.length} file activities`);
+  }
+
+  /**
+   * 3. Git commits
+   */
+  private async syncCommits(localOnlyProjects: string[]): Promise<void> {
+    const commits = await this.db.getUnsyncedCommits(20, localOnlyProjects);
+    if (commits.length === 0) return;
+
+    this.logger.debug(`Syncing ${commits.length} commits`);
+    await this.apiClient.syncCommits(commits);
+    const ids = commits
+      .map((c) => c.id)
+      .filter((id): id is number => id !== undefined);
+    await this.db.markCommitsSynced(ids);
+    this.logger.info(`Synced ${commits.length} commits`);
+  }
+
+  /**
+   * 4. Completed focus sessions. Servers without support for them must not
+   * hold back the other streams, so a server error only disables this one.
+   */
+  private async syncFocusSessions(): Promise<void> {
+    if (this.focusSyncUnsupported) return;
+
+    const sessions = await this.db.getUnsyncedFocusSessions(50);
+    if (sessions.length === 0) return;
+
+    this.logger.debug(`Syncing ${sessions.length} focus sessions`);
+    try {
+      await this.apiClient.syncFocusSessions(sessions);
+    } catch (err) {
+      if (err instanceof SyncError && err.kind === "server") {
+        this.focusSyncUnsupported = true;
+        this.logger.warn(
+          `Server did not accept focus sessions, keeping them local: ${err.message}`
         );
-        if (success) {
-          await this.db.deleteAggregatedActivities(aggregatedActivities);
-          this.logger.info(
-            `Synced ${aggregatedActivities.length} file activities`
-          );
-          this.statusBarManager.updateStatus("Miss-Minutes: Synced");
-        } else {
-          this.statusBarManager.updateStatus("Miss-Minutes: Offline");
-        }
+        return;
       }
+      throw err;
+    }
+    const ids = sessions
+      .map((s) => s.id)
+      .filter((id): id is number => id !== undefined);
+    await this.db.markFocusSessionsSynced(ids);
+    this.logger.info(`Synced ${sessions.length} focus sessions`);
+  }
 
-      // 3. Sync git commits
-      const commits = await this.db.getUnsyncedCommits(20);
-      if (commits.length > 0) {
-        this.logger.debug(`Syncing ${commits.length} commits`);
-        const success = await this.apiClient.syncCommits(commits);
-        if (success) {
-          const ids = commits
-            .map((c) => c.id!)
-            .filter((id): id is number => id !== undefined);
-          if (ids.length > 0) {
-            await this.db.deleteCommits(ids);
-          }
-          this.logger.info(`Synced ${commits.length} commits`);
-        }
+  private handleSyncError(error: SyncError) {
+    if (error.kind === "auth") {
+      // Retrying with the same token is pointless, wait for a new one
+      this.authBlocked = true;
+      this.statusBarManager.setSyncState(
+        "noToken",
+        "The server rejected the API token"
+      );
+      if (!this.authPrompted) {
+        this.authPrompted = true;
+        vscode.window
+          .showWarningMessage(
+            "Miss-Minutes: The server rejected your API token. Please enter a new one to resume syncing.",
+            "Enter API Token"
+          )
+          .then((selection) => {
+            if (selection === "Enter API Token") {
+              vscode.commands.executeCommand("miss-minutes.setApiKey");
+            }
+          });
       }
-    } catch (err) {
-      this.logger.error("Sync loop error", err as Error);
+      return;
     }
 
-    this.syncTimer = setTimeout(() => this.syncLoop(), this.syncInterval);
+    this.consecutiveSyncFailures++;
+    this.statusBarManager.setSyncState("offline", error.message);
+    this.logger.warn(
+      `Sync failed (${error.kind}, attempt ${this.consecutiveSyncFailures}): ${error.message}`
+    );
+  }
+
+  /**
+   * Regular interval while syncing works, exponential backoff with jitter
+   * after consecutive failures
+   */
+  private nextSyncDelay(): number {
+    if (this.consecutiveSyncFailures === 0) {
+      return this.syncInterval;
+    }
+    const backoff = Math.min(
+      this.maxSyncBackoff,
+      this.syncInterval * 2 ** (this.consecutiveSyncFailures - 1)
+    );
+    // Random point in the upper half keeps windows/clients from retrying in lockstep
+    return backoff / 2 + Math.random() * (backoff / 2);
   }
+
+  /**
+   * Drop local history older than the configured retention window,
+   * but only rows that already reached the server
+   */
+  private async pruneHistory(localOnlyProjects: string[]) {
+    const retentionDays = vscode.workspace
+      .getConfiguration("miss-minutes")
+      .get<number>("localRetentionDays", 90);
+    if (!retentionDays || retentionDays <= 0) return;
+
+    const before = new Date();
+    before.setHours(0, 0, 0, 0);
+    before.setDate(before.getDate() - retentionDays);
+    await this.db.pruneHistory(
+      before.getTime(),
+      localOnlyProjects,
+      Array.from(this.gitTracker?.getActiveCommits().values() ?? [])
+    );
+  }
+}
+
+function sameContext(
+  a: ActivityContext,
+  b: ActivityContext | undefined
+): boolean {
+  return (
+    !!b &&
+    a.filePath === b.filePath &&
+    a.language === b.language &&
+    a.projectPath === b.projectPath &&
+    a.commitHash === b.commitHash &&
+    a.branch === b.branch &&
+    a.gitState === b.gitState &&
+    a.category === b.category
+  );
+}
+
+/**
+ * The focused text document or notebook. Notebook cells are attributed to
+ * the notebook file, in the language of the cell being worked on.
+ */
+function activeEditorTarget(): EditorTarget | undefined {
+  const editor = vscode.window.activeTextEditor;
+  const notebookEditor = vscode.window.activeNotebookEditor;
+
+  if (
+    notebookEditor &&
+    (!editor || editor.document.uri.scheme === "vscode-notebook-cell")
+  ) {
+    const notebook = notebookEditor.notebook;
+    const cell =
+      editor?.document.uri.scheme === "vscode-notebook-cell"
+        ? notebook
+            .getCells()
+            .find(
+              (c) =>
+                c.document.uri.toString() === editor.document.uri.toString()
+            )
+        : notebookEditor.selection.start < notebook.cellCount
+        ? notebook.cellAt(notebookEditor.selection.start)
+        : undefined;
+
+    return {
+      uri: notebook.uri,
+      filePath: notebook.uri.fsPath,
+      language: cell?.document.languageId ?? notebook.notebookType,
+      category: editorCategory(notebook.uri),
+    };
+  }
+
+  if (!editor) return undefined;
+
+  return {
+    uri: editor.document.uri,
+    filePath: editor.document.fileName,
+    language: editor.document.languageId,
+    category: editorCategory(editor.document.uri),
+  };
+}
+
+/**
+ * Category of work in an editor: reading diffs is reviewing, anything
+ * else while a debug session runs is debugging
+ */
+function editorCategory(uri: vscode.Uri): ActivityCategory {
+  const tab = vscode.window.tabGroups.activeTabGroup.activeTab;
+  if (
+    uri.scheme === "git" ||
+    uri.scheme === "vscode-scm" ||
+    tab?.input instanceof vscode.TabInputTextDiff ||
+    tab?.input instanceof vscode.TabInputNotebookDiff
+  ) {
+    return "reviewing";
+  }
+  if (vscode.debug.activeDebugSession) {
+    return "debugging";
+  }
+  return "coding";
+}
+
+function isWorkspaceFolder(
+  scope: vscode.Task["scope"]
+): scope is vscode.WorkspaceFolder {
+  return typeof scope === "object" && scope !== null && "uri" in scope;
+}
+
+function emptySummary(): TodaySummary {
+  return { totalDuration: 0, byProject: {}, byLanguage: {} };
+}
+
+function startOfToday(): number {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  return start.getTime();
+}
+
+function addToSummary(
+  summary: TodaySummary,
+  projectPath: string,
+  language: string,
+  duration: number
+) {
+  summary.totalDuration += duration;
+  summary.byProject[projectPath] =
+    (summary.byProject[projectPath] || 0) + duration;
+  summary.byLanguage[language] = (summary.byLanguage[language] || 0) + duration;
 }
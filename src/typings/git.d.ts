@@ -0,0 +1,39 @@
+// Subset of the API exported by VS Code's built-in git extension (vscode.git),
+// see extensions/git/src/api/git.d.ts in the VS Code repository.
+import { Event, Uri } from "vscode";
+
+export interface Branch {
+  readonly name?: string;
+  readonly commit?: string;
+}
+
+export interface RepositoryState {
+  readonly HEAD: Branch | undefined;
+  readonly onDidChange: Event<void>;
+}
+
+export interface InputBox {
+  value: string;
+}
+
+export interface Repository {
+  readonly rootUri: Uri;
+  readonly inputBox: InputBox;
+  readonly state: RepositoryState;
+}
+
+export type APIState = "uninitialized" | "initialized";
+
+export interface API {
+  readonly state: APIState;
+  readonly onDidChangeState: Event<APIState>;
+  readonly repositories: Repository[];
+  readonly onDidOpenRepository: Event<Repository>;
+  readonly onDidCloseRepository: Event<Repository>;
+}
+
+export interface GitExtension {
+  readonly enabled: boolean;
+  readonly onDidChangeEnablement: Event<boolean>;
+  getAPI(version: 1): API;
+}
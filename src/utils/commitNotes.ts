@@ -0,0 +1,172 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+import { Logger } from "./logger";
+import { Database } from "../storage/database";
+import { Tracker } from "../sync/tracker";
+import { CommitEvent } from "./gitTracker";
+
+const execFileAsync = promisify(execFile);
+
+const NOTES_REF = "miss-minutes";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Contents of a note, durations in milliseconds
+interface CommitNote {
+  totalDuration: number;
+  languageBreakdown: Record<string, number>;
+  fileCount: number;
+}
+
+/**
+ * Writes the time tracked for each commit as a git note under
+ * refs/notes/miss-minutes, so it can be shared through plain git
+ * (`git push origin refs/notes/miss-minutes`) without the hosted backend.
+ * Existing notes are never overwritten.
+ */
+export class CommitNotes {
+  private logger = Logger.getInstance();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private db: Database, private tracker: Tracker) {}
+
+  public start() {
+    this.disposables.push(
+      this.tracker.onDidAttributeCommit((event) => this.onCommit(event))
+    );
+  }
+
+  private async onCommit(event: CommitEvent) {
+    const enabled = vscode.workspace
+      .getConfiguration("miss-minutes")
+      .get<boolean>("gitNotes", false);
+    if (!enabled) return;
+
+    try {
+      await this.writeNote(event.projectPath, event.commitHash);
+    } catch (err) {
+      this.logger.error(
+        `Failed to write git note for ${event.commitHash}`,
+        err as Error
+      );
+    }
+  }
+
+  /**
+   * Ask how far back to go, then write notes for commits that have none yet
+   */
+  public async promptAndBackfill() {
+    const ranges: (vscode.QuickPickItem & { days?: number })[] = [
+      { label: "Last 7 days", days: 7 },
+      { label: "Last 30 days", days: 30 },
+      { label: "All local history" },
+    ];
+    const range = await vscode.window.showQuickPick(ranges, {
+      placeHolder: "Write git notes for commits from",
+    });
+    if (!range) return;
+
+    try {
+      await this.tracker.flushQueue();
+      const written = await this.backfill(
+        range.days ? Date.now() - range.days * DAY_MS : undefined
+      );
+      vscode.window.showInformationMessage(
+        `Miss-Minutes: Wrote git notes for ${written} commits. Share them with \`git push origin refs/notes/${NOTES_REF}\``
+      );
+    } catch (err) {
+      this.logger.error("Git notes backfill failed", err as Error);
+      vscode.window.showErrorMessage(
+        `Miss-Minutes: Writing git notes failed: ${(err as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Write notes for locally known commits since `from`. Resolves with the
+   * number of notes written.
+   */
+  public async backfill(from?: number): Promise<number> {
+    const commits = await this.db.getCommits({ from });
+    let written = 0;
+
+    for (const commit of commits) {
+      // Repositories that were moved or deleted since
+      if (!commit.projectPath || !fs.existsSync(commit.projectPath)) continue;
+
+      try {
+        if (await this.writeNote(commit.projectPath, commit.commitHash)) {
+          written++;
+        }
+      } catch (err) {
+        // e.g. the commit was rebased away
+        this.logger.warn(
+          `Skipping git note for ${commit.commitHash}: ${
+            (err as Error).message
+          }`
+        );
+      }
+    }
+
+    this.logger.info(`Backfilled ${written} git notes`);
+    return written;
+  }
+
+  /**
+   * Add a note with the commit's tracked time, unless no time was tracked
+   * for it or it already has one. Resolves with whether a note was written.
+   */
+  private async writeNote(gitRoot: string, commitHash: string) {
+    const time = await this.db.getCommitTime(commitHash);
+    if (time.totalDuration <= 0) return false;
+    if (await this.hasNote(gitRoot, commitHash)) return false;
+
+    const note: CommitNote = {
+      totalDuration: time.totalDuration,
+      languageBreakdown: time.languageBreakdown,
+      fileCount: time.fileCount,
+    };
+    try {
+      await execFileAsync(
+        "git",
+        [
+          "notes",
+          `--ref=${NOTES_REF}`,
+          "add",
+          "-m",
+          JSON.stringify(note, null, 2),
+          commitHash,
+        ],
+        { cwd: gitRoot }
+      );
+    } catch (err) {
+      // Every open window writes a note for the same commit and only one
+      // wins; git's message is localized, so look for the winner's note
+      if (await this.hasNote(gitRoot, commitHash)) return false;
+      throw err;
+    }
+    this.logger.info(`Wrote git note for ${commitHash.substring(0, 7)}`);
+    return true;
+  }
+
+  private async hasNote(gitRoot: string, commitHash: string) {
+    try {
+      await execFileAsync(
+        "git",
+        ["notes", `--ref=${NOTES_REF}`, "list", commitHash],
+        { cwd: gitRoot }
+      );
+      return true;
+    } catch {
+      // Exits non-zero when the commit has no note
+      return false;
+    }
+  }
+
+  public dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,270 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { exec } from "child_process";
+import { promisify } from "util";
+
+import { Logger } from "./logger";
+import { formatDuration } from "./format";
+import { GitTracker, getGitApi } from "./gitTracker";
+import { Database } from "../storage/database";
+import { Tracker } from "../sync/tracker";
+
+const execAsync = promisify(exec);
+
+export type TrailerMode = "off" | "inputBox" | "hook";
+
+const TRAILER_KEY = "Time-Spent";
+const REFRESH_INTERVAL = 30_000; // 30 seconds
+// Less than this is not worth a trailer
+const MIN_DURATION = 60_000; // 1 minute
+// Per-worktree file in the git dir the hook reads the trailer from
+const STATE_FILE = "miss-minutes-time-spent";
+// The hook ignores a state file not refreshed for this long (VS Code closed)
+const STALE_AFTER_SECONDS = 600;
+// Marks hooks we wrote, so hooks of other tools are never touched
+const HOOK_MARKER = "# Installed by Miss-Minutes";
+const TRAILER_LINE = /^[A-Za-z0-9-]+: /;
+
+const HOOK_SCRIPT = `#!/bin/sh
+${HOOK_MARKER}: adds a ${TRAILER_KEY} trailer with the time tracked
+# since the last commit. Set miss-minutes.timeSpentTrailer to remove it.
+case "$2" in
+  merge|squash|commit) exit 0 ;;
+esac
+state="$(git rev-parse --git-path ${STATE_FILE})"
+[ -f "$state" ] || exit 0
+read -r head written trailer < "$state"
+[ "$head" = "$(git rev-parse HEAD 2>/dev/null)" ] || exit 0
+[ $(( $(date +%s) - written )) -lt ${STALE_AFTER_SECONDS} ] || exit 0
+exec git interpret-trailers --in-place --if-exists replace --trailer "$trailer" "$1"
+`;
+
+type HookState = "installed" | "absent" | "foreign";
+
+/**
+ * Adds a `Time-Spent: 1h 20m` trailer to commit messages with the time
+ * recorded against the repository's HEAD on its branch, i.e. since the
+ * previous commit. Either keeps the trailer up to date in the SCM input box,
+ * or installs a prepare-commit-msg hook that also covers commits made
+ * outside VS Code. The hook is removed again when the mode changes.
+ */
+export class CommitTrailer {
+  private logger = Logger.getInstance();
+  private mode: TrailerMode = "off";
+  private timer: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+  private refreshing = false;
+  // gitRoot -> hooks directory and state file
+  private gitPaths = new Map<string, { hooks: string; state: string }>();
+  private hooks = new Map<string, HookState>();
+  // gitRoot -> input box value at the previous refresh
+  private inputBoxValues = new Map<string, string>();
+
+  constructor(
+    private db: Database,
+    private tracker: Tracker,
+    private gitTracker: GitTracker
+  ) {}
+
+  public start() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("miss-minutes.timeSpentTrailer")) {
+          this.loadSettings();
+          this.refresh();
+        }
+      }),
+      // The new HEAD starts from zero
+      this.gitTracker.onDidCommit(() => this.refresh())
+    );
+    this.loadSettings();
+    // Also runs while off, to remove hooks installed in an earlier session
+    this.timer = setInterval(() => this.refresh(), REFRESH_INTERVAL);
+    this.refresh();
+  }
+
+  private loadSettings() {
+    this.mode = vscode.workspace
+      .getConfiguration("miss-minutes")
+      .get<TrailerMode>("timeSpentTrailer", "off");
+  }
+
+  private async refresh() {
+    if (this.refreshing) return;
+    this.refreshing = true;
+
+    try {
+      if (this.mode !== "off") {
+        await this.tracker.flushQueue();
+      }
+
+      for (const [root, head] of this.gitTracker.getActiveCommits()) {
+        if (this.mode !== "hook") {
+          await this.removeHook(root);
+        }
+        if (this.mode === "off") continue;
+
+        const branch = this.gitTracker.getActiveBranchForPath(root);
+        const duration = await this.db.getUncommittedDuration(
+          root,
+          head,
+          branch
+        );
+        const trailer =
+          duration >= MIN_DURATION
+            ? `${TRAILER_KEY}: ${formatDuration(duration)}`
+            : undefined;
+
+        if (this.mode === "hook") {
+          await this.installHook(root);
+          await this.writeState(root, head, trailer);
+        } else {
+          await this.updateInputBox(root, trailer);
+        }
+      }
+    } catch (err) {
+      this.logger.error("Failed to update time-spent trailer", err as Error);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private async updateInputBox(root: string, trailer: string | undefined) {
+    // Only add to a message being written, never start one
+    const api = await getGitApi();
+    const repository = api?.repositories.find((r) => r.rootUri.fsPath === root);
+    if (!repository || !trailer) return;
+
+    const message = repository.inputBox.value;
+    const previous = this.inputBoxValues.get(root);
+    this.inputBoxValues.set(root, message);
+    // Writing moves the cursor, so wait until the message was left alone
+    // for a whole refresh interval
+    if (!message.trim() || message !== previous) return;
+
+    const updated = withTrailer(message, trailer);
+    if (updated !== message) {
+      repository.inputBox.value = updated;
+      this.inputBoxValues.set(root, updated);
+    }
+  }
+
+  private async installHook(root: string) {
+    const state = this.hooks.get(root);
+    if (state === "installed" || state === "foreign") return;
+
+    const hookPath = path.join(
+      (await this.resolveGitPaths(root)).hooks,
+      "prepare-commit-msg"
+    );
+    if (fs.existsSync(hookPath)) {
+      if (!fs.readFileSync(hookPath, "utf8").includes(HOOK_MARKER)) {
+        this.hooks.set(root, "foreign");
+        this.logger.warn(`Not replacing existing hook ${hookPath}`);
+        vscode.window.showWarningMessage(
+          `Miss-Minutes: ${path.basename(
+            root
+          )} already has a prepare-commit-msg hook, so no Time-Spent trailer is added to its commits.`
+        );
+        return;
+      }
+    } else {
+      try {
+        fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+        fs.writeFileSync(hookPath, HOOK_SCRIPT, { mode: 0o755 });
+      } catch (err) {
+        // e.g. core.hooksPath points somewhere unwritable; don't retry
+        this.hooks.set(root, "foreign");
+        this.logger.error(`Failed to install hook ${hookPath}`, err as Error);
+        return;
+      }
+      this.logger.info(`Installed prepare-commit-msg hook in ${root}`);
+    }
+    this.hooks.set(root, "installed");
+  }
+
+  private async removeHook(root: string) {
+    if (this.hooks.get(root) === "absent") return;
+
+    const paths = await this.resolveGitPaths(root);
+    const hookPath = path.join(paths.hooks, "prepare-commit-msg");
+    if (
+      fs.existsSync(hookPath) &&
+      fs.readFileSync(hookPath, "utf8").includes(HOOK_MARKER)
+    ) {
+      fs.rmSync(hookPath, { force: true });
+      this.logger.info(`Removed prepare-commit-msg hook from ${root}`);
+    }
+    fs.rmSync(paths.state, { force: true });
+    this.hooks.set(root, "absent");
+  }
+
+  private async writeState(
+    root: string,
+    head: string,
+    trailer: string | undefined
+  ) {
+    const { state } = await this.resolveGitPaths(root);
+    if (!trailer) {
+      fs.rmSync(state, { force: true });
+      return;
+    }
+    const written = Math.floor(Date.now() / 1000);
+    fs.writeFileSync(state, `${head} ${written} ${trailer}\n`);
+  }
+
+  /**
+   * Hooks directory (honouring core.hooksPath) and state file location,
+   * which differ per worktree
+   */
+  private async resolveGitPaths(
+    root: string
+  ): Promise<{ hooks: string; state: string }> {
+    let paths = this.gitPaths.get(root);
+    if (!paths) {
+      const { stdout } = await execAsync(
+        `git rev-parse --git-path hooks --git-path ${STATE_FILE}`,
+        { cwd: root }
+      );
+      const [hooks, state] = stdout.trim().split(/\r?\n/);
+      paths = {
+        hooks: path.resolve(root, hooks),
+        state: path.resolve(root, state),
+      };
+      this.gitPaths.set(root, paths);
+    }
+    return paths;
+  }
+
+  public dispose() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
+
+/**
+ * Replace the message's Time-Spent trailer, or add it to the trailer block
+ * at the end (starting one if there is none)
+ */
+function withTrailer(message: string, trailer: string): string {
+  const lines = message.split("\n");
+  const existing = lines.findIndex((line) =>
+    line.toLowerCase().startsWith(`${TRAILER_KEY.toLowerCase()}:`)
+  );
+  if (existing >= 0) {
+    lines[existing] = trailer;
+    return lines.join("\n");
+  }
+
+  const body = message.replace(/\s+$/, "");
+  const paragraphs = body.split(/\n\s*\n/);
+  const last = paragraphs[paragraphs.length - 1].split("\n");
+  const inTrailerBlock =
+    paragraphs.length > 1 && last.every((line) => TRAILER_LINE.test(line));
+  return `${body}${inTrailerBlock ? "\n" : "\n\n"}${trailer}`;
+}
@@ -6,10 +6,45 @@ import { exec, execSync } from "child_process";
 import { promisify } from "util";
 
 import { Logger } from "./logger";
-import { Database, GitCommit } from "../storage/database";
+import { API, GitExtension, Repository } from "../typings/git";
+import {
+  Database,
+  GitCommit,
+  CommitFileStat,
+  GitState,
+} from "../storage/database";
 
 const execAsync = promisify(exec);
 
+// Bounds of the fallback scan for repositories
+const SCAN_MAX_DEPTH = 4;
+const SCAN_MAX_DIRECTORIES = 2000;
+// Never hold repositories of their own worth tracking, but can be huge
+const SCAN_SKIPPED_DIRECTORIES = new Set([
+  "node_modules",
+  "bower_components",
+  "vendor",
+  "dist",
+  "build",
+  "out",
+  "target",
+  "venv",
+  "__pycache__",
+]);
+
+// Branch label for a detached HEAD outside of a rebase or bisect, like git's own
+const DETACHED_BRANCH = "HEAD";
+
+// A commit that builds on the HEAD activity was recorded against
+export interface CommitEvent {
+  projectPath: string; // Git root
+  previousCommit: string; // HEAD before the commit (or the amended commit)
+  commitHash: string;
+  branch?: string;
+  message: string;
+  files: string[]; // Absolute paths of the files the commit touched
+}
+
 export class GitTracker {
   private logger = Logger.getInstance();
 
@@ -19,43 +54,61 @@ export class GitTracker {
   // gitRoot -> branch name
   private currentBranch: Map<string, string> = new Map();
 
+  // gitRoot -> operation in progress (rebase, merge, ...)
+  private currentState: Map<string, GitState> = new Map();
+
   // Set of known git roots
   private gitRoots: Set<string> = new Set();
 
+  private commitEmitter = new vscode.EventEmitter<CommitEvent>();
+  // Fires when HEAD moves to a new commit made on top of the previous one
+  public readonly onDidCommit = this.commitEmitter.event;
+
   constructor(private database: Database) {}
 
   // -------------------------------------------------------
-  // 🔍 FIND ALL GIT ROOTS INSIDE WORKSPACE (MONOREPO SAFE)
+  // 🔍 FIND GIT ROOTS BY SCANNING (fallback without the git extension)
   // -------------------------------------------------------
-  private findGitRootsInWorkspace(): string[] {
-    const folders = vscode.workspace.workspaceFolders;
-    if (!folders) return [];
-
+  private async findGitRoots(folders: readonly string[]): Promise<string[]> {
     const roots = new Set<string>();
 
-    for (const folder of folders) {
-      const base = folder.uri.fsPath;
-
-      const stack: string[] = [base];
-
-      while (stack.length > 0) {
-        const current = stack.pop()!;
-        const gitDir = path.join(current, ".git");
-
-        try {
-          if (fs.existsSync(gitDir) && fs.statSync(gitDir).isDirectory()) {
-            roots.add(current);
-            continue; // do NOT scan deeper inside this repo
+    for (const base of folders) {
+      // Breadth-first, so shallow repositories are found before the budget runs out
+      const queue: { dir: string; depth: number }[] = [{ dir: base, depth: 0 }];
+      let scanned = 0;
+
+      while (queue.length > 0 && scanned < SCAN_MAX_DIRECTORIES) {
+        const { dir: current, depth } = queue.shift()!;
+        scanned++;
+
+        // Worktrees and submodules have a .git file pointing elsewhere
+        if (resolveGitDir(current)) {
+          roots.add(current);
+          // do NOT scan deeper inside this repo, except for its submodules
+          for (const submodule of readSubmodulePaths(current)) {
+            if (resolveGitDir(submodule)) {
+              queue.push({ dir: submodule, depth: depth + 1 });
+            }
           }
-        } catch {}
+          continue;
+        }
+        if (depth >= SCAN_MAX_DEPTH) continue;
 
         // Scan children folders
         try {
-          const children = fs.readdirSync(current);
+          const children = await fs.promises.readdir(current, {
+            withFileTypes: true,
+          });
           for (const child of children) {
-            const full = path.join(current, child);
-            if (fs.statSync(full).isDirectory()) {
-              stack.push(full);
+            if (
+              child.isDirectory() &&
+              !child.name.startsWith(".") &&
+              !SCAN_SKIPPED_DIRECTORIES.has(child.name)
+            ) {
+              queue.push({
+                dir: path.join(current, child.name),
+                depth: depth + 1,
+              });
             }
           }
         } catch {}
@@ -87,57 +140,82 @@ export class GitTracker {
       const { stdout } = await execAsync("git branch --show-current", {
         cwd: gitRoot,
       });
-      return stdout.trim();
+      const branch = stdout.trim();
+      if (branch) return branch;
+
+      // Detached HEAD: credit the branch being rebased or bisected
+      const gitDir = resolveGitDir(gitRoot);
+      return (gitDir && readDetachedBranch(gitDir)) || DETACHED_BRANCH;
     } catch {
       return null;
     }
   }
 
   // -------------------------------------------------------
-  // 📦 GET COMMIT DETAILS (message, author, diff stats)
+  // 🚧 GET OPERATION IN PROGRESS (rebase, merge, bisect, ...)
+  // -------------------------------------------------------
+  private getGitState(
+    gitRoot: string,
+    branch: string | undefined
+  ): GitState | undefined {
+    const gitDir = resolveGitDir(gitRoot);
+    if (!gitDir) return undefined;
+
+    const has = (name: string) => fs.existsSync(path.join(gitDir, name));
+    if (has("rebase-merge") || has("rebase-apply")) return "rebasing";
+    if (has("MERGE_HEAD")) return "merging";
+    if (has("CHERRY_PICK_HEAD")) return "cherry-picking";
+    if (has("REVERT_HEAD")) return "reverting";
+    if (has("BISECT_LOG")) return "bisecting";
+    return branch === DETACHED_BRANCH ? "detached" : undefined;
+  }
+
+  private async refreshHeadState(gitRoot: string): Promise<string | null> {
+    const branch = await this.getBranch(gitRoot);
+    if (branch) {
+      this.currentBranch.set(gitRoot, branch);
+    }
+    this.refreshGitState(gitRoot);
+    return branch;
+  }
+
+  private refreshGitState(gitRoot: string) {
+    const state = this.getGitState(gitRoot, this.currentBranch.get(gitRoot));
+    if (state) {
+      this.currentState.set(gitRoot, state);
+    } else {
+      this.currentState.delete(gitRoot);
+    }
+  }
+
+  // -------------------------------------------------------
+  // 📦 GET COMMIT DETAILS (message, author, per-file diff stats)
   // -------------------------------------------------------
   private async getCommitDetails(
     gitRoot: string,
     hash: string
   ): Promise<Partial<GitCommit> | null> {
     try {
-      const [msg, author, email, timestamp] = await Promise.all([
-        execAsync(`git log -1 --format=%s ${hash}`, { cwd: gitRoot }),
-        execAsync(`git log -1 --format=%an ${hash}`, { cwd: gitRoot }),
-        execAsync(`git log -1 --format=%ae ${hash}`, { cwd: gitRoot }),
-        execAsync(`git log -1 --format=%at ${hash}`, { cwd: gitRoot }),
-      ]);
-
-      const message = msg.stdout.trim();
-      const authorName = author.stdout.trim();
-      const authorEmail = email.stdout.trim();
-      const timestampMs = parseInt(timestamp.stdout.trim(), 10) * 1000;
-
-      // diff stats
-      const { stdout: diffStats } = await execAsync(
-        `git show --stat --format="" ${hash}`,
-        { cwd: gitRoot }
+      // One process: NUL-separated header fields followed by -z numstat
+      // records. Merges are compared with their first parent.
+      const { stdout } = await execAsync(
+        `git show -z --numstat -M -m --first-parent --format=%an%x00%ae%x00%at%x00%s%x00 ${hash}`,
+        { cwd: gitRoot, maxBuffer: 16 * 1024 * 1024 }
       );
 
-      const filesChanged = (diffStats.match(/\n/g) || []).length;
-
-      let linesAdded = 0;
-      let linesDeleted = 0;
-
-      const stats = diffStats.match(/(\d+) insertion.*?(\d+) deletion/);
-      if (stats) {
-        linesAdded = parseInt(stats[1], 10) || 0;
-        linesDeleted = parseInt(stats[2], 10) || 0;
-      }
+      const tokens = stdout.split("\0");
+      const [authorName, authorEmail, timestamp, message] = tokens;
+      const files = parseNumstat(gitRoot, tokens.slice(4));
 
       return {
         message,
         author: authorName,
         authorEmail,
-        timestamp: timestampMs,
-        filesChanged,
-        linesAdded,
-        linesDeleted,
+        timestamp: parseInt(timestamp, 10) * 1000,
+        filesChanged: files.length,
+        linesAdded: files.reduce((sum, f) => sum + f.linesAdded, 0),
+        linesDeleted: files.reduce((sum, f) => sum + f.linesDeleted, 0),
+        files,
       };
     } catch (err) {
       this.logger.error("Failed reading commit details", err);
@@ -145,6 +223,39 @@ export class GitTracker {
     }
   }
 
+  // -------------------------------------------------------
+  // 🧬 PARENTS OF A COMMIT
+  // -------------------------------------------------------
+  private async getParents(gitRoot: string, hash: string): Promise<string[]> {
+    try {
+      const { stdout } = await execAsync(
+        `git rev-list --parents -n 1 ${hash}`,
+        {
+          cwd: gitRoot,
+        }
+      );
+      return stdout.trim().split(/\s+/).slice(1);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Whether newCommit was made on top of oldCommit, directly or by amending it
+   */
+  private async isCommitOn(
+    gitRoot: string,
+    oldCommit: string,
+    newCommit: string
+  ): Promise<boolean> {
+    const newParents = await this.getParents(gitRoot, newCommit);
+    if (newParents.includes(oldCommit)) {
+      return true;
+    }
+    const oldParents = await this.getParents(gitRoot, oldCommit);
+    return oldParents.length > 0 && oldParents[0] === newParents[0];
+  }
+
   // -------------------------------------------------------
   // 🔄 TRACK COMMIT CHANGE
   // -------------------------------------------------------
@@ -153,6 +264,10 @@ export class GitTracker {
     if (!newCommit) return;
 
     const oldCommit = this.currentCommit.get(gitRoot);
+    const oldBranch = this.currentBranch.get(gitRoot);
+
+    // A merge or rebase can start or stop without moving HEAD
+    const branch = await this.refreshHeadState(gitRoot);
 
     if (oldCommit === newCommit) return;
 
@@ -161,7 +276,6 @@ export class GitTracker {
     );
 
     const details = await this.getCommitDetails(gitRoot, newCommit);
-    const branch = await this.getBranch(gitRoot);
 
     if (details) {
       const data: GitCommit = {
@@ -175,83 +289,182 @@ export class GitTracker {
         linesAdded: details.linesAdded!,
         linesDeleted: details.linesDeleted!,
         branch: branch || undefined,
+        files: details.files,
       };
 
       await this.database.insertCommit(data);
     }
 
     this.currentCommit.set(gitRoot, newCommit);
-    if (branch) {
-      this.currentBranch.set(gitRoot, branch);
+
+    // A new commit on the same branch (not a checkout): the work recorded
+    // against the old HEAD went into it
+    if (
+      oldCommit &&
+      details &&
+      (branch || undefined) === oldBranch &&
+      (await this.isCommitOn(gitRoot, oldCommit, newCommit))
+    ) {
+      this.commitEmitter.fire({
+        projectPath: gitRoot,
+        previousCommit: oldCommit,
+        commitHash: newCommit,
+        branch: branch || undefined,
+        message: details.message || "",
+        // Work before a rename was recorded under the old path
+        files: (details.files || []).flatMap((f) =>
+          f.oldPath ? [f.filePath, f.oldPath] : [f.filePath]
+        ),
+      });
     }
   }
 
   // -------------------------------------------------------
-  // 🚀 INITIALIZE ALL FOUND GIT ROOTS
+  // 🚀 INITIALIZE A GIT ROOT
   // -------------------------------------------------------
-  public async initializeAllRoots() {
-    const roots = this.findGitRootsInWorkspace();
-    this.gitRoots = new Set(roots);
-
-    this.logger.info(
-      `GitTracker detected git roots: ${
-        roots.length > 0 ? roots.join(", ") : "None"
-      }`
-    );
+  private async addRoot(root: string) {
+    if (this.gitRoots.has(root)) return;
+    this.gitRoots.add(root);
+    this.logger.info(`GitTracker tracking git root: ${root}`);
 
-    for (const root of roots) {
-      const commit = await this.getCurrentCommit(root);
-      if (commit) {
-        this.currentCommit.set(root, commit);
+    const commit = await this.getCurrentCommit(root);
+    const branch = await this.refreshHeadState(root);
+    if (!commit) return;
 
-        const details = await this.getCommitDetails(root, commit);
-        const branch = await this.getBranch(root);
+    this.currentCommit.set(root, commit);
 
-        if (branch) {
-          this.currentBranch.set(root, branch);
-        }
-
-        if (details) {
-          await this.database.insertCommit({
-            projectPath: root,
-            commitHash: commit,
-            message: details.message!,
-            author: details.author!,
-            authorEmail: details.authorEmail!,
-            timestamp: details.timestamp!,
-            filesChanged: details.filesChanged!,
-            linesAdded: details.linesAdded!,
-            linesDeleted: details.linesDeleted!,
-            branch: branch || undefined,
-          });
-        }
-      }
+    const details = await this.getCommitDetails(root, commit);
+    if (details) {
+      await this.database.insertCommit({
+        projectPath: root,
+        commitHash: commit,
+        message: details.message!,
+        author: details.author!,
+        authorEmail: details.authorEmail!,
+        timestamp: details.timestamp!,
+        filesChanged: details.filesChanged!,
+        linesAdded: details.linesAdded!,
+        linesDeleted: details.linesDeleted!,
+        branch: branch || undefined,
+        files: details.files,
+      });
     }
   }
 
+  private removeRoot(root: string) {
+    this.gitRoots.delete(root);
+    this.currentCommit.delete(root);
+    this.currentBranch.delete(root);
+    this.currentState.delete(root);
+  }
+
   // -------------------------------------------------------
   // 👀 WATCH GIT HEAD CHANGES
   // -------------------------------------------------------
   public async watchGitChanges(context: vscode.ExtensionContext) {
-    await this.initializeAllRoots();
+    const api = await getGitApi();
+    if (api) {
+      this.watchRepositories(api, context);
+      return;
+    }
 
-    for (const root of this.gitRoots) {
-      const rootUri = vscode.Uri.file(root);
+    this.logger.info(
+      "Git extension unavailable, scanning workspace for repositories"
+    );
+    const scanFolders = async (folders: readonly vscode.WorkspaceFolder[]) => {
+      const roots = await this.findGitRoots(folders.map((f) => f.uri.fsPath));
+      for (const root of roots) {
+        if (this.gitRoots.has(root)) continue;
+        await this.addRoot(root);
+        this.watchRoot(root, context);
+      }
+    };
 
-      const pattern = new vscode.RelativePattern(
-        rootUri,
-        ".git/{HEAD,refs/heads/**}"
+    await scanFolders(vscode.workspace.workspaceFolders || []);
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeWorkspaceFolders((e) => scanFolders(e.added))
+    );
+  }
+
+  /**
+   * Follow the repositories the built-in git extension discovers, including
+   * ones opened after activation
+   */
+  private watchRepositories(api: API, context: vscode.ExtensionContext) {
+    const watched = new Map<string, vscode.Disposable>();
+
+    const open = async (repository: Repository) => {
+      const root = repository.rootUri.fsPath;
+      if (watched.has(root)) return;
+
+      await this.addRoot(root);
+      let lastHead = headKey(repository);
+      watched.set(
+        root,
+        repository.state.onDidChange(() => {
+          // Fires on every working tree change; only a moved HEAD needs git
+          const head = headKey(repository);
+          if (head !== lastHead) {
+            lastHead = head;
+            this.trackCommitChange(root);
+          } else {
+            this.refreshGitState(root);
+          }
+        })
       );
+    };
+
+    api.repositories.forEach(open);
+    context.subscriptions.push(
+      api.onDidOpenRepository(open),
+      api.onDidCloseRepository((repository) => {
+        const root = repository.rootUri.fsPath;
+        watched.get(root)?.dispose();
+        watched.delete(root);
+        this.removeRoot(root);
+      }),
+      new vscode.Disposable(() => watched.forEach((d) => d.dispose()))
+    );
+  }
 
+  /**
+   * Watch the git directory of a repository found by scanning
+   */
+  private watchRoot(root: string, context: vscode.ExtensionContext) {
+    const gitDir = resolveGitDir(root);
+    if (!gitDir) return;
+
+    // HEAD and operation markers live in the worktree's own git dir,
+    // branches in the directory shared by all worktrees
+    const patterns = [
+      new vscode.RelativePattern(
+        vscode.Uri.file(gitDir),
+        "{HEAD,MERGE_HEAD,CHERRY_PICK_HEAD,REVERT_HEAD,BISECT_LOG,rebase-merge,rebase-apply}"
+      ),
+      new vscode.RelativePattern(
+        vscode.Uri.file(resolveCommonDir(gitDir)),
+        "refs/heads/**"
+      ),
+    ];
+
+    for (const pattern of patterns) {
       const watcher = vscode.workspace.createFileSystemWatcher(pattern);
 
       watcher.onDidChange(() => this.trackCommitChange(root));
       watcher.onDidCreate(() => this.trackCommitChange(root));
+      watcher.onDidDelete(() => this.trackCommitChange(root));
 
       context.subscriptions.push(watcher);
     }
   }
 
+  /**
+   * Current HEAD of every known git root
+   */
+  public getActiveCommits(): Map<string, string> {
+    return new Map(this.currentCommit);
+  }
+
   public getActiveCommitForPath(fsPath: string): string | undefined {
     let bestMatch: string | undefined;
 
@@ -293,6 +506,11 @@ export class GitTracker {
     return bestMatch ? this.currentBranch.get(bestMatch) : undefined;
   }
 
+  public getActiveStateForPath(fsPath: string): GitState | undefined {
+    const root = this.getGitRootForPath(fsPath);
+    return root ? this.currentState.get(root) : undefined;
+  }
+
   public getGitRootForPath(fsPath: string): string | undefined {
     let best: string | undefined;
 
@@ -311,3 +529,131 @@ export class GitTracker {
     return best;
   }
 }
+
+/**
+ * API of the built-in git extension, or undefined when it is disabled
+ */
+export async function getGitApi(): Promise<API | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+  if (!extension) return undefined;
+
+  try {
+    const git = extension.isActive
+      ? extension.exports
+      : await extension.activate();
+    return git.enabled ? git.getAPI(1) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Identifies where a repository's HEAD points
+function headKey(repository: Repository): string {
+  const head = repository.state.HEAD;
+  return `${head?.commit}|${head?.name}`;
+}
+
+/**
+ * Git directory of a working tree: `.git` itself, or where the `gitdir:`
+ * pointer in a `.git` file leads (worktrees, submodules)
+ */
+function resolveGitDir(root: string): string | undefined {
+  const dotGit = path.join(root, ".git");
+  try {
+    const stat = fs.statSync(dotGit);
+    if (stat.isDirectory()) return dotGit;
+    if (!stat.isFile()) return undefined;
+
+    const match = fs
+      .readFileSync(dotGit, "utf8")
+      .match(/^gitdir:\s*(.+?)\s*$/m);
+    if (!match) return undefined;
+
+    const gitDir = path.resolve(root, match[1]);
+    return fs.existsSync(gitDir) ? gitDir : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Directory shared by all worktrees of a repository (refs, objects)
+ */
+function resolveCommonDir(gitDir: string): string {
+  try {
+    const commonDir = fs
+      .readFileSync(path.join(gitDir, "commondir"), "utf8")
+      .trim();
+    return path.resolve(gitDir, commonDir);
+  } catch {
+    return gitDir;
+  }
+}
+
+/**
+ * Absolute paths of the submodules declared in a repository's .gitmodules
+ */
+function readSubmodulePaths(root: string): string[] {
+  try {
+    const content = fs.readFileSync(path.join(root, ".gitmodules"), "utf8");
+    return Array.from(content.matchAll(/^\s*path\s*=\s*(.+?)\s*$/gm)).map(
+      (match) => path.join(root, match[1])
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Branch a detached HEAD belongs to while a rebase or bisect runs
+ */
+function readDetachedBranch(gitDir: string): string | undefined {
+  for (const file of [
+    "rebase-merge/head-name",
+    "rebase-apply/head-name",
+    "BISECT_START",
+  ]) {
+    try {
+      const name = fs.readFileSync(path.join(gitDir, file), "utf8").trim();
+      // BISECT_START holds a commit hash when the bisect started detached
+      if (name && name !== "detached HEAD" && !/^[0-9a-f]{40}$/.test(name)) {
+        return name.replace(/^refs\/heads\//, "");
+      }
+    } catch {}
+  }
+  return undefined;
+}
+
+/**
+ * Parse `git show -z --numstat` records: "added\tdeleted\tpath", or for
+ * renames "added\tdeleted\t" followed by the old and new path as separate
+ * tokens. Binary files report "-" for both counts.
+ */
+function parseNumstat(gitRoot: string, tokens: string[]): CommitFileStat[] {
+  const files: CommitFileStat[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const match = tokens[i].match(/^\n*(\d+|-)\t(\d+|-)\t(.*)$/s);
+    if (!match) continue;
+
+    const [, added, deleted, filePath] = match;
+    const binary = added === "-" && deleted === "-";
+    const stat: CommitFileStat = {
+      filePath: "",
+      linesAdded: binary ? 0 : parseInt(added, 10),
+      linesDeleted: binary ? 0 : parseInt(deleted, 10),
+      binary,
+    };
+
+    if (filePath) {
+      stat.filePath = path.join(gitRoot, filePath);
+    } else {
+      stat.oldPath = path.join(gitRoot, tokens[i + 1]);
+      stat.filePath = path.join(gitRoot, tokens[i + 2]);
+      i += 2;
+    }
+    files.push(stat);
+  }
+
+  return files;
+}
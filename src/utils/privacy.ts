@@ -0,0 +1,141 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as crypto from "crypto";
+import { minimatch } from "minimatch";
+
+export type ObfuscationMode = "none" | "hash" | "strip";
+
+const MATCH_OPTIONS = { dot: true, matchBase: true, nocase: true };
+
+/**
+ * Decides which files get tracked and which projects may leave the machine,
+ * and obfuscates paths and labels in sync payloads. Reads the `miss-minutes` include,
+ * exclude, localOnlyProjects and obfuscation settings.
+ */
+export class PrivacyFilter {
+  private static instance: PrivacyFilter;
+
+  private include: string[] = [];
+  private exclude: string[] = [];
+  private localOnlyProjects: string[] = [];
+  private mode: ObfuscationMode = "none";
+
+  private constructor() {
+    this.reload();
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("miss-minutes")) {
+        this.reload();
+      }
+    });
+  }
+
+  public static getInstance(): PrivacyFilter {
+    if (!PrivacyFilter.instance) {
+      PrivacyFilter.instance = new PrivacyFilter();
+    }
+    return PrivacyFilter.instance;
+  }
+
+  private reload() {
+    const config = vscode.workspace.getConfiguration("miss-minutes");
+    this.include = config.get<string[]>("include") || [];
+    this.exclude = config.get<string[]>("exclude") || [];
+    this.localOnlyProjects = config.get<string[]>("localOnlyProjects") || [];
+    this.mode = config.get<ObfuscationMode>("obfuscation") || "none";
+  }
+
+  /**
+   * Whether activity in this file should be recorded at all
+   */
+  public shouldTrack(filePath: string, projectPath: string): boolean {
+    const candidates = [filePath];
+    if (projectPath && isInside(filePath, projectPath)) {
+      candidates.push(toGlobPath(path.relative(projectPath, filePath)));
+    }
+
+    const matches = (patterns: string[]) =>
+      patterns.some((pattern) =>
+        candidates.some((candidate) =>
+          minimatch(toGlobPath(candidate), pattern, MATCH_OPTIONS)
+        )
+      );
+
+    if (this.include.length > 0 && !matches(this.include)) {
+      return false;
+    }
+    return !matches(this.exclude);
+  }
+
+  /**
+   * Whether this project is tracked locally but never synced
+   */
+  public isLocalOnly(projectPath: string): boolean {
+    if (!projectPath) return false;
+
+    return this.localOnlyProjects.some(
+      (pattern) =>
+        minimatch(
+          toGlobPath(projectPath),
+          toGlobPath(pattern),
+          MATCH_OPTIONS
+        ) || path.basename(projectPath) === pattern
+    );
+  }
+
+  /**
+   * Project identifier to send to the server
+   */
+  public projectForSync(projectPath: string): string {
+    if (this.mode === "none" || !projectPath) {
+      return projectPath;
+    }
+    // Projects are hashed in both modes so the server can still group by them
+    return `project-${hash(projectPath)}`;
+  }
+
+  /**
+   * File path to send to the server; the extension survives hashing so the
+   * server can still tell file types apart
+   */
+  public fileForSync(filePath: string): string {
+    switch (this.mode) {
+      case "hash":
+        return `${hash(filePath)}${path.extname(filePath)}`;
+      case "strip":
+        return "";
+      default:
+        return filePath;
+    }
+  }
+
+  /**
+   * Branch name, ticket key or commit message to send to the server. These
+   * often name the client or project, so they follow the path modes: hashed
+   * (still groupable) or left out.
+   */
+  public labelForSync(value: string | undefined): string | undefined {
+    if (!value) return value;
+
+    switch (this.mode) {
+      case "hash":
+        return hash(value);
+      case "strip":
+        return undefined;
+      default:
+        return value;
+    }
+  }
+}
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+function isInside(filePath: string, root: string): boolean {
+  const relative = path.relative(root, filePath);
+  return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function toGlobPath(value: string): string {
+  return value.split(path.sep).join("/");
+}
@@ -0,0 +1,73 @@
+import * as vscode from "vscode";
+import { Logger } from "./logger";
+
+// Jira-style keys such as PROJ-123, but not standards such as UTF-8 or
+// SHA-256 that commit messages often mention
+const DEFAULT_PATTERNS = [
+  "\\b(?!(?:UTF|SHA|ISO|RFC|CVE|AES|MD|TLS|HTTP)-)[A-Z][A-Z0-9]+-\\d+\\b",
+];
+
+/**
+ * Extracts issue/ticket keys from branch names and commit messages using the
+ * `miss-minutes.ticketPatterns` setting. A pattern with a capture group
+ * yields the first group, otherwise the whole match.
+ */
+export class TicketMatcher {
+  private static instance: TicketMatcher;
+
+  private logger = Logger.getInstance();
+  private patterns: RegExp[] = [];
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  // Fires after the patterns changed
+  public readonly onDidChangePatterns = this.changeEmitter.event;
+
+  private constructor() {
+    this.reload();
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("miss-minutes.ticketPatterns")) {
+        this.reload();
+        this.changeEmitter.fire();
+      }
+    });
+  }
+
+  public static getInstance(): TicketMatcher {
+    if (!TicketMatcher.instance) {
+      TicketMatcher.instance = new TicketMatcher();
+    }
+    return TicketMatcher.instance;
+  }
+
+  private reload() {
+    const sources = vscode.workspace
+      .getConfiguration("miss-minutes")
+      .get<string[]>("ticketPatterns", DEFAULT_PATTERNS);
+
+    this.patterns = [];
+    for (const source of sources) {
+      try {
+        this.patterns.push(new RegExp(source));
+      } catch (err) {
+        this.logger.warn(
+          `Ignoring invalid ticket pattern ${source}: ${(err as Error).message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * First ticket key found in a branch name or commit message
+   */
+  public extract(text: string | undefined): string | undefined {
+    if (!text) return undefined;
+
+    for (const pattern of this.patterns) {
+      const match = text.match(pattern);
+      if (match) {
+        return match[1] ?? match[0];
+      }
+    }
+    return undefined;
+  }
+}
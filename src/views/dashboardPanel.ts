@@ -0,0 +1,254 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Logger } from "../utils/logger";
+import { formatDuration } from "../utils/format";
+import {
+  Database,
+  ActivityDimension,
+  ActivityTotal,
+} from "../storage/database";
+import { Tracker } from "../sync/tracker";
+
+interface DashboardSection {
+  dimension: ActivityDimension;
+  title: string;
+}
+
+const SECTIONS: DashboardSection[] = [
+  { dimension: "day", title: "Time per Day" },
+  { dimension: "project", title: "Time per Project" },
+  { dimension: "language", title: "Time per Language" },
+  { dimension: "branch", title: "Time per Branch" },
+  { dimension: "commit", title: "Time per Commit" },
+  { dimension: "category", title: "Time per Activity" },
+  { dimension: "ticket", title: "Time per Ticket" },
+];
+
+const RANGES = [7, 30, 90];
+
+/**
+ * Webview showing charts of the locally stored activity history,
+ * so stats are available offline without the hosted dashboard.
+ */
+export class DashboardPanel {
+  private static currentPanel: DashboardPanel | undefined;
+
+  private logger = Logger.getInstance();
+  private disposables: vscode.Disposable[] = [];
+  private rangeDays = 7;
+
+  public static createOrShow(db: Database, tracker?: Tracker) {
+    if (DashboardPanel.currentPanel) {
+      DashboardPanel.currentPanel.panel.reveal(vscode.ViewColumn.One);
+      DashboardPanel.currentPanel.refresh();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      "missMinutesDashboard",
+      "Miss-Minutes Dashboard",
+      vscode.ViewColumn.One,
+      { enableScripts: true }
+    );
+    DashboardPanel.currentPanel = new DashboardPanel(panel, db, tracker);
+  }
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private db: Database,
+    private tracker?: Tracker
+  ) {
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(
+      (message) => {
+        if (message.command === "setRange") {
+          this.rangeDays = Number(message.days) || 7;
+          this.refresh();
+        } else if (message.command === "refresh") {
+          this.refresh();
+        }
+      },
+      null,
+      this.disposables
+    );
+    this.refresh();
+  }
+
+  public async refresh() {
+    try {
+      // Make sure the latest in-memory activity is visible
+      await this.tracker?.flushQueue();
+
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (this.rangeDays - 1));
+
+      const data = await Promise.all(
+        SECTIONS.map((section) =>
+          this.db.getActivityTotals(
+            section.dimension,
+            since.getTime(),
+            section.dimension === "day" ? this.rangeDays : 15
+          )
+        )
+      );
+
+      const focus = await this.db.getFocusSessionTotals(
+        since.getTime(),
+        this.rangeDays
+      );
+
+      this.panel.webview.html = this.getHtml(data, focus);
+    } catch (err) {
+      this.logger.error("Failed to render dashboard", err as Error);
+      vscode.window.showErrorMessage(
+        `Miss-Minutes: Failed to load dashboard: ${(err as Error).message}`
+      );
+    }
+  }
+
+  private getHtml(data: ActivityTotal[][], focus: ActivityTotal[]): string {
+    const nonce = getNonce();
+    const total = data[0].reduce((sum, row) => sum + row.totalDuration, 0);
+
+    const sections = SECTIONS.map((section, i) => {
+      // Oldest day first reads more naturally on a timeline
+      const rows =
+        section.dimension === "day" ? [...data[i]].reverse() : data[i];
+      return `
+      <section>
+        <h2>${section.title}</h2>
+        ${
+          rows.length > 0
+            ? renderBars(rows, section.dimension)
+            : `<p class="empty">No activity recorded in this range.</p>`
+        }
+      </section>`;
+    }).join("");
+
+    // Only shown once Pomodoro mode has recorded something
+    const focusSection =
+      focus.length > 0
+        ? `
+      <section>
+        <h2>Focus Sessions per Day</h2>
+        ${renderBars(
+          [...focus].reverse().map((row) => ({
+            ...row,
+            label: `${row.label} (${row.activityCount} ${
+              row.activityCount === 1 ? "session" : "sessions"
+            })`,
+          })),
+          "day"
+        )}
+      </section>`
+        : "";
+
+    const rangeButtons = RANGES.map(
+      (days) =>
+        `<button data-days="${days}" class="${
+          days === this.rangeDays ? "active" : ""
+        }">Last ${days} days</button>`
+    ).join("");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Miss-Minutes Dashboard</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+    header { display: flex; align-items: center; justify-content: space-between; flex-wrap: wrap; gap: 8px; }
+    .total { font-size: 1.6em; margin: 0; }
+    button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; }
+    button.active { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    section { margin-top: 24px; }
+    h2 { font-size: 1.1em; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+    .row { display: grid; grid-template-columns: minmax(120px, 30%) 1fr 80px; align-items: center; gap: 8px; margin: 4px 0; }
+    .label { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .bar { height: 14px; background: var(--vscode-charts-blue); border-radius: 2px; min-width: 2px; }
+    .value { text-align: right; font-variant-numeric: tabular-nums; }
+    .empty { opacity: 0.7; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1 class="total">${formatDuration(total)} in the last ${
+      this.rangeDays
+    } days</h1>
+    <div>${rangeButtons}<button id="refresh">Refresh</button></div>
+  </header>
+  ${sections}
+  ${focusSection}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll("button[data-days]").forEach((button) => {
+      button.addEventListener("click", () =>
+        vscode.postMessage({ command: "setRange", days: button.dataset.days })
+      );
+    });
+    document.getElementById("refresh").addEventListener("click", () =>
+      vscode.postMessage({ command: "refresh" })
+    );
+  </script>
+</body>
+</html>`;
+  }
+
+  public dispose() {
+    DashboardPanel.currentPanel = undefined;
+    this.panel.dispose();
+    while (this.disposables.length) {
+      this.disposables.pop()?.dispose();
+    }
+  }
+}
+
+function renderBars(rows: ActivityTotal[], dimension: ActivityDimension) {
+  const max = Math.max(...rows.map((row) => row.totalDuration), 1);
+
+  return rows
+    .map((row) => {
+      const width = ((row.totalDuration / max) * 100).toFixed(1);
+      return `
+        <div class="row" title="${escapeHtml(row.key)}">
+          <span class="label">${escapeHtml(formatLabel(row, dimension))}</span>
+          <div class="bar" style="width: ${width}%"></div>
+          <span class="value">${formatDuration(row.totalDuration)}</span>
+        </div>`;
+    })
+    .join("");
+}
+
+function formatLabel(row: ActivityTotal, dimension: ActivityDimension) {
+  switch (dimension) {
+    case "project":
+      return path.basename(row.label);
+    case "commit":
+      return row.label === row.key
+        ? row.key.substring(0, 7)
+        : `${row.key.substring(0, 7)} ${row.label}`;
+    default:
+      return row.label;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function getNonce(): string {
+  const chars =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}